@@ -1,6 +1,5 @@
 import {
 	IAuthenticateGeneric,
-	ICredentialTestRequest,
 	ICredentialType,
 	INodeProperties,
 } from 'n8n-workflow';
@@ -10,6 +9,13 @@ export class Pdf4meAiApi implements ICredentialType {
 	displayName = 'PDF4ME API';
 	documentationUrl = 'https://dev.pdf4me.com/pricing/';
 	properties: INodeProperties[] = [
+		{
+			displayName:
+				'Testing this credential sends an invalid request that PDF4ME rejects before running a job. This assumes PDF4ME does not bill rejected requests.',
+			name: 'credentialTestNotice',
+			type: 'notice',
+			default: '',
+		},
 		{
 			displayName: 'PDF4ME API Key',
 			name: 'apiKey',
@@ -22,6 +28,65 @@ export class Pdf4meAiApi implements ICredentialType {
 			description: 'Your PDF4ME API key. Get it from your PDF4ME account settings.',
 			placeholder: 'Enter your API key here',
 		},
+		{
+			displayName: 'Region',
+			name: 'region',
+			type: 'options',
+			default: 'global',
+			description: 'PDF4ME API endpoint to send requests to',
+			options: [
+				{
+					name: 'Global',
+					value: 'global',
+					description: 'https://api.pdf4me.com',
+				},
+				{
+					name: 'Custom Endpoint',
+					value: 'custom',
+					description: 'A data-residency endpoint, corporate proxy or local mock server',
+				},
+			],
+		},
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: 'https://pdf4me-proxy.example.com',
+			description: 'Base URL of the PDF4ME API, without the /api/v2 path',
+			displayOptions: {
+				show: {
+					region: ['custom'],
+				},
+			},
+		},
+		{
+			displayName: 'Rate Limit (Requests per Second)',
+			name: 'rateLimit',
+			type: 'number',
+			default: 0,
+			typeOptions: {
+				minValue: 0,
+				numberPrecision: 2,
+			},
+			description: 'Most requests per second that all workflows using this credential may send together. Use 0 for no limit; a 429 answer with Retry-After still pauses them.',
+		},
+		{
+			displayName: 'Rate Limit Burst',
+			name: 'rateLimitBurst',
+			type: 'number',
+			default: 5,
+			typeOptions: {
+				minValue: 1,
+			},
+			description: 'How many requests may be sent at once before the rate limit applies',
+			displayOptions: {
+				hide: {
+					rateLimit: [0],
+				},
+			},
+		},
 	];
 
 	authenticate: IAuthenticateGeneric = {
@@ -34,21 +99,5 @@ export class Pdf4meAiApi implements ICredentialType {
 		},
 	};
 
-	// The block below tells how this credential can be tested
-	test: ICredentialTestRequest = {
-		request: {
-			baseURL: 'https://api.pdf4me.com',
-			url: '/api/v2/CreateBarcode',
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			body: {
-				text: 'test',
-				barcodeType: 'qrCode',
-				hideText: true,
-				async: true,
-			},
-		},
-	};
+	// Tested by the node's pdf4meAiApiTest method with a request that fails validation
 }
@@ -0,0 +1,25 @@
+import {
+	ICredentialType,
+	INodeProperties,
+} from 'n8n-workflow';
+
+export class Pdf4meDocumentPassword implements ICredentialType {
+	name = 'pdf4meDocumentPassword';
+	displayName = 'PDF4ME Document Password';
+	documentationUrl = 'https://docs.pdf4me.com/n8n/pdf4me-ai/';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Password',
+			name: 'password',
+			type: 'string',
+			default: '',
+			required: true,
+			typeOptions: {
+				password: true,
+			},
+			description: 'Password that opens the encrypted PDF documents processed with this credential',
+		},
+	];
+
+	// Not sent anywhere on its own; the password is passed to PDF4ME with each encrypted document
+}
@@ -0,0 +1,69 @@
+/**
+ * Limits for processing the items of one execution in parallel. A
+ * requestsPerSecond of 0 starts items as soon as a slot is free.
+ */
+export interface IConcurrencyOptions {
+	concurrency: number;
+	requestsPerSecond: number;
+}
+
+export const MAX_CONCURRENCY = 16;
+
+const sleep = async (ms: number) => await new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `worker` for the indexes 0 to count - 1 with at most `concurrency` calls in
+ * flight and at most `requestsPerSecond` calls started per second. Results keep
+ * the order of the indexes, whatever order the calls finish in.
+ *
+ * A worker that throws stops new calls from starting. The calls already in flight
+ * are awaited, then the error of the lowest failed index is thrown, which is the
+ * error a sequential loop would have stopped at. Cancelling the signal also stops
+ * new calls from starting; their results are left undefined.
+ */
+export async function mapConcurrent<T>(
+	count: number,
+	options: IConcurrencyOptions,
+	worker: (index: number) => Promise<T>,
+	signal?: AbortSignal,
+): Promise<Array<T | undefined>> {
+	const results: Array<T | undefined> = new Array(count);
+	const concurrency = Math.min(Math.max(Math.floor(options.concurrency) || 1, 1), MAX_CONCURRENCY);
+	const interval = options.requestsPerSecond > 0 ? 1000 / options.requestsPerSecond : 0;
+
+	let next = 0;
+	let nextStart = Date.now();
+	let failure: { index: number; error: unknown } | undefined;
+	const stopped = () => failure !== undefined || signal?.aborted === true;
+
+	const lane = async () => {
+		while (next < count && !stopped()) {
+			const index = next++;
+			if (interval > 0) {
+				const now = Date.now();
+				const wait = nextStart - now;
+				nextStart = Math.max(now, nextStart) + interval;
+				if (wait > 0) {
+					await sleep(wait);
+				}
+				if (stopped()) {
+					return;
+				}
+			}
+			try {
+				results[index] = await worker(index);
+			} catch (error) {
+				if (failure === undefined || index < failure.index) {
+					failure = { index, error };
+				}
+			}
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, count) }, lane));
+
+	if (failure !== undefined) {
+		throw failure.error;
+	}
+	return results;
+}
@@ -1,14 +1,8 @@
 /* eslint-disable n8n-nodes-base/node-filename-against-convention, n8n-nodes-base/node-param-default-missing */
 import { INodeTypeDescription, NodeConnectionType } from 'n8n-workflow';
-import * as aiInvoiceParser from './actions/aiInvoiceParser';
-import * as aiProcessHealthCard from './actions/aiProcessHealthCard';
-import * as aiProcessContract from './actions/aiProcessContract';
-import * as aiProcessMortgageDocument from './actions/aiProcessMortgageDocument';
-import * as aiProcessBankCheque from './actions/aiProcessBankCheque';
-import * as aiProcessCreditCard from './actions/aiProcessCreditCard';
-import * as aiProcessPayStub from './actions/aiProcessPayStub';
-import * as aiProcessMarriageCertificate from './actions/aiProcessMarriageCertificate';
 import { ActionConstants } from './GenericFunctions';
+import { operationOptions, operationProperties } from './OperationRegistry';
+import { outputsExpression } from './OutputRouting';
 
 export const descriptions: INodeTypeDescription = {
 	displayName: 'PDF4me AI',
@@ -20,11 +14,42 @@ export const descriptions: INodeTypeDescription = {
 	group: ['transform'],
 	icon: 'file:300.svg',
 	inputs: [NodeConnectionType.Main],
-	outputs: [NodeConnectionType.Main],
+	outputs: outputsExpression,
 	credentials: [
 		{
 			name: 'pdf4meAiApi',
 			required: true,
+			testedBy: 'pdf4meAiApiTest',
+		},
+		// Optional credentials for downloading documents from a URL
+		{
+			name: 'httpHeaderAuth',
+			required: true,
+			displayOptions: {
+				show: {
+					inputDataType: ['url'],
+					urlAuthentication: ['httpHeaderAuth'],
+				},
+			},
+		},
+		{
+			name: 'httpBasicAuth',
+			required: true,
+			displayOptions: {
+				show: {
+					inputDataType: ['url'],
+					urlAuthentication: ['httpBasicAuth'],
+				},
+			},
+		},
+		{
+			name: 'pdf4meDocumentPassword',
+			required: true,
+			displayOptions: {
+				show: {
+					passwordSource: ['credential'],
+				},
+			},
 		},
 	], // eslint-disable-line n8n-nodes-base/node-param-default-missing
 	properties: [
@@ -55,68 +80,311 @@ export const descriptions: INodeTypeDescription = {
 					resource: ['ai'],
 				},
 			},
+			options: operationOptions,
+			default: ActionConstants.AiInvoiceParser,
+		},
+
+		// Spread all action descriptions
+		...operationProperties,
+
+		{
+			displayName: 'Job Mode',
+			name: 'jobMode',
+			type: 'options',
+			noDataExpression: true,
+			default: 'wait',
+			description: 'Whether to wait for the AI job to finish or return its Location URL right away',
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+				},
+				hide: {
+					operation: [ActionConstants.GetJobResult],
+				},
+			},
 			options: [
 				{
-					name: 'AI-Invoice Parser',
-					value: ActionConstants.AiInvoiceParser,
-					description: 'Extract structured data from invoices using AI/ML technology for automated data entry',
-					action: 'AI-Invoice Parser',
+					name: 'Wait for Result',
+					value: 'wait',
+					description: 'Poll the job until it finishes and return the extracted data',
 				},
 				{
-					name: 'AI-Process Contract',
-					value: ActionConstants.AiProcessContract,
-					description: 'Extract structured data from contracts using AI/ML technology for legal document analysis',
-					action: 'AI-Process Contract',
+					name: 'Start Job',
+					value: 'startJob',
+					description: 'Return the job ID and Location URL immediately; fetch the result later with Get Job Result',
 				},
 				{
-					name: 'AI-Process HealthCard',
-					value: ActionConstants.AiProcessHealthCard,
-					description: 'Extract structured data from health cards using AI/ML technology for member management',
-					action: 'AI-Process HealthCard',
+					name: 'Start Job with Callback',
+					value: 'callback',
+					description: 'Return immediately and let PDF4ME post the result to a callback URL, such as a Wait node resume URL',
+				},
+			],
+		},
+		{
+			displayName: 'Callback URL',
+			name: 'callbackUrl',
+			type: 'string',
+			required: true,
+			default: '',
+			description: 'URL that PDF4ME posts the job result to when it finishes',
+			placeholder: '={{ $execution.resumeUrl }}',
+			hint: 'Use a Wait node set to resume "On Webhook Call", then verify the posted body with Get Job Result → Callback Payload',
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+					jobMode: ['callback'],
 				},
+				hide: {
+					operation: [ActionConstants.GetJobResult],
+				},
+			},
+		},
+
+		{
+			displayName: 'Output Routing',
+			name: 'outputRouting',
+			type: 'options',
+			noDataExpression: true,
+			default: 'single',
+			description: 'Whether to send all items to one output or split them across several outputs',
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+				},
+			},
+			options: [
 				{
-					name: 'AI-Process Mortgage Document',
-					value: ActionConstants.AiProcessMortgageDocument,
-					description: 'Extract structured data from mortgage documents using AI/ML technology for loan processing',
-					action: 'AI-Process Mortgage Document',
+					name: 'Single Output',
+					value: 'single',
+					description: 'Send every item to one output',
 				},
 				{
-					name: 'AI-Process Bank Cheque',
-					value: ActionConstants.AiProcessBankCheque,
-					description: 'Extract structured data from bank cheques using AI/ML technology for payment processing',
-					action: 'AI-Process Bank Cheque',
+					name: 'By Document Type',
+					value: 'documentType',
+					description: 'One output per document type, for use with AI-Classify Document in Auto mode; unsupported types and failed items go to Other',
 				},
 				{
-					name: 'AI-Process Credit Card',
-					value: ActionConstants.AiProcessCreditCard,
-					description: 'Extract structured data from credit cards using AI/ML technology for payment processing',
-					action: 'AI-Process Credit Card',
+					name: 'By Status',
+					value: 'status',
+					description: 'Validate each result and send it to Success, Needs Review or Failed',
+				},
+			],
+		},
+		{
+			displayName: 'Required Fields',
+			name: 'requiredFields',
+			type: 'string',
+			default: '',
+			placeholder: 'invoiceNumber, totalAmount, vendor.name',
+			description: 'Comma-separated fields, with dots for nested fields, that must be present and non-empty. Results missing any of them, or without any extracted data, go to Needs Review.',
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+					outputRouting: ['status'],
 				},
+			},
+		},
+		{
+			displayName: 'Processing Options',
+			name: 'processingOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+				},
+			},
+			options: [
 				{
-					name: 'AI-Process Pay Stub',
-					value: ActionConstants.AiProcessPayStub,
-					description: 'Extract structured data from pay stubs using AI/ML technology for payroll processing',
-					action: 'AI-Process Pay Stub',
+					displayName: 'Concurrency',
+					name: 'concurrency',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+						maxValue: 16,
+					},
+					default: 1,
+					description: 'How many items to process at the same time. Output order and item pairing are kept.',
 				},
 				{
-					name: 'AI-Process Marriage Certificate',
-					value: ActionConstants.AiProcessMarriageCertificate,
-					description: 'Extract structured data from marriage certificates using AI/ML technology for document verification',
-					action: 'AI-Process Marriage Certificate',
+					displayName: 'Max Items Per Second',
+					name: 'requestsPerSecond',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						numberPrecision: 2,
+					},
+					default: 0,
+					description: 'How many items may start per second, each sending its first request to PDF4ME. Use 0 for no limit.',
 				},
 			],
-			default: ActionConstants.AiInvoiceParser,
+		},
+		{
+			displayName: 'Result Cache',
+			name: 'resultCache',
+			type: 'options',
+			default: 'none',
+			description: 'Whether to reuse the result of a document that was processed before instead of sending it to PDF4ME again',
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+				},
+				hide: {
+					operation: [ActionConstants.GetJobResult],
+				},
+			},
+			options: [
+				{
+					name: 'Off',
+					value: 'none',
+					description: 'Send every document to PDF4ME',
+				},
+				{
+					name: 'Workflow Static Data',
+					value: 'staticData',
+					description: 'Keep results with the workflow; saved after production executions only',
+				},
+				{
+					name: 'Filesystem',
+					value: 'filesystem',
+					description: 'Keep results as files in a directory on the n8n host',
+				},
+			],
+		},
+		{
+			displayName: 'Cache TTL (Hours)',
+			name: 'cacheTtl',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 24,
+			description: 'How long a cached result is reused',
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+					resultCache: ['staticData', 'filesystem'],
+				},
+				hide: {
+					operation: [ActionConstants.GetJobResult],
+				},
+			},
+		},
+		{
+			displayName: 'Cache Directory',
+			name: 'cacheDirectory',
+			type: 'string',
+			default: '',
+			placeholder: '/home/node/.n8n/pdf4me-cache',
+			description: 'Directory for cached results, created readable by the n8n user only. Leave empty to use the pdf4me-ai-cache folder in the n8n user folder.',
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+					resultCache: ['filesystem'],
+				},
+				hide: {
+					operation: [ActionConstants.GetJobResult],
+				},
+			},
 		},
 
-		// Spread all action descriptions
-		...aiInvoiceParser.description,
-		...aiProcessContract.description,
-		...aiProcessHealthCard.description,
-		...aiProcessMortgageDocument.description,
-		...aiProcessBankCheque.description,
-		...aiProcessCreditCard.description,
-		...aiProcessPayStub.description,
-		...aiProcessMarriageCertificate.description,
+		// Shared options for the async job lifecycle of every AI operation
+		{
+			displayName: 'Async Job Options',
+			name: 'asyncOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			displayOptions: {
+				show: {
+					resource: ['ai'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Exponential Backoff',
+					name: 'exponentialBackoff',
+					type: 'boolean',
+					default: false,
+					description: 'Whether to double the wait between polls after every attempt, up to the max poll interval',
+				},
+				{
+					displayName: 'Honor Retry-After',
+					name: 'honorRetryAfter',
+					type: 'boolean',
+					default: true,
+					description: 'Whether to use the Retry-After header of a still-running job as the wait before the next poll',
+				},
+				{
+					displayName: 'Jitter',
+					name: 'jitter',
+					type: 'boolean',
+					default: false,
+					description: 'Whether to randomize each wait between half and the full interval to spread out concurrent jobs',
+				},
+				{
+					displayName: 'Max Poll Interval (Seconds)',
+					name: 'maxPollInterval',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: 60,
+					description: 'Upper limit for the wait between polls when exponential backoff is enabled',
+				},
+				{
+					displayName: 'Max Retries',
+					name: 'maxRetries',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+						maxValue: 10,
+					},
+					default: 3,
+					description: 'How many times to retry the initial request when the API answers with 429 or a 5xx status',
+				},
+				{
+					displayName: 'Max Wait Time (Seconds)',
+					name: 'maxWaitTime',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: 3600,
+					description: 'How long to wait for an async job before failing with a timeout error that contains the job Location URL',
+				},
+				{
+					displayName: 'Poll Interval (Seconds)',
+					name: 'pollInterval',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: 10,
+					description: 'Wait between polls of a running job',
+				},
+				{
+					displayName: 'Wait Strategy',
+					name: 'waitStrategy',
+					type: 'options',
+					options: [
+						{
+							name: 'Local Timer',
+							value: 'local',
+							description: 'Wait inside n8n; stops as soon as the execution is cancelled',
+						},
+						{
+							name: 'Remote Delay',
+							value: 'remote',
+							description: 'Call the PDF4ME AddDelay endpoint, which waits in 10-second steps and counts as an API request',
+						},
+					],
+					default: 'local',
+					description: 'How to wait between polls and retries',
+				},
+			],
+		},
 	],
 	subtitle: '={{$parameter["resource"]}} / {{$parameter["operation"]}}',
 	version: 1,
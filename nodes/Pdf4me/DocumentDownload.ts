@@ -0,0 +1,368 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { LookupAddress, LookupOptions } from 'dns';
+import { lookup } from 'dns';
+import type { IncomingMessage } from 'http';
+import * as http from 'http';
+import * as https from 'https';
+import { isIP, isIPv4 } from 'net';
+import type { Readable } from 'stream';
+import { isRetryableStatus, Pdf4meErrorCode, withErrorCode } from './Errors';
+
+/**
+ * How a document URL is downloaded. Downloads never carry the PDF4ME API key;
+ * authentication, if any, comes from a separate credential chosen on the node.
+ */
+export interface IDownloadOptions {
+	authentication: 'none' | 'httpHeaderAuth' | 'httpBasicAuth';
+	allowedHosts: string[];
+	allowPrivateNetwork: boolean;
+	maxSize: number;
+}
+
+const MAX_REDIRECTS = 5;
+const DOWNLOAD_TIMEOUT_MS = 120000;
+
+// Error code of a lookup that resolved to an address the download may not connect to
+const PRIVATE_ADDRESS_ERROR = 'EPRIVATEADDRESS';
+
+/**
+ * Parse a comma-separated host allowlist. Entries are host names, optionally
+ * prefixed with "*." to allow all subdomains.
+ */
+export function parseAllowedHosts(value: string): string[] {
+	return value
+		.split(',')
+		.map((host) => host.trim().toLowerCase())
+		.filter((host) => host !== '');
+}
+
+function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+	if (allowedHosts.length === 0) {
+		return true;
+	}
+	const host = hostname.toLowerCase();
+	return allowedHosts.some((allowed) =>
+		allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed,
+	);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, carrier-grade NAT,
+ * multicast or otherwise not a public internet address. IPv6 addresses that embed
+ * an IPv4 address (IPv4-mapped, IPv4-compatible, NAT64 and 6to4) are judged by it.
+ * Anything that is not a valid address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+	if (isIPv4(address)) {
+		const [a, b] = address.split('.').map(Number);
+		return (
+			a === 0 ||
+			a === 10 ||
+			a === 127 ||
+			(a === 100 && b >= 64 && b <= 127) ||
+			(a === 169 && b === 254) ||
+			(a === 172 && b >= 16 && b <= 31) ||
+			(a === 192 && b === 168) ||
+			a >= 224
+		);
+	}
+
+	const groups = parseIPv6(address);
+	if (!groups) {
+		return true;
+	}
+	const toIPv4 = (high: number, low: number) => `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+	const zeroUntil = (end: number) => groups.slice(0, end).every((group) => group === 0);
+
+	// ::ffff:a.b.c.d (mapped) and ::a.b.c.d (compatible, which also covers :: and ::1)
+	if (zeroUntil(5) && (groups[5] === 0xffff || groups[5] === 0)) {
+		return isPrivateAddress(toIPv4(groups[6], groups[7]));
+	}
+	// NAT64 well-known prefix 64:ff9b::/96; the local-use prefix 64:ff9b:1::/48 is private
+	if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+		return groups[2] !== 0 || groups.slice(3, 6).some((group) => group !== 0) || isPrivateAddress(toIPv4(groups[6], groups[7]));
+	}
+	// 6to4 2002::/16 carries the IPv4 address in the next 32 bits
+	if (groups[0] === 0x2002) {
+		return isPrivateAddress(toIPv4(groups[1], groups[2]));
+	}
+	return (
+		(groups[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7
+		(groups[0] & 0xffc0) === 0xfe80 || // link-local fe80::/10
+		(groups[0] & 0xffc0) === 0xfec0 || // site-local fec0::/10
+		(groups[0] & 0xff00) === 0xff00 // multicast ff00::/8
+	);
+}
+
+/**
+ * Parse an IPv6 address, with an optional zone and trailing dotted IPv4 part, into
+ * its eight 16-bit groups. Returns undefined for anything else.
+ */
+function parseIPv6(address: string): number[] | undefined {
+	let text = address.toLowerCase().replace(/%.*$/, '');
+	const dotted = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+	if (dotted) {
+		if (!isIPv4(dotted[2])) {
+			return undefined;
+		}
+		const [a, b, c, d] = dotted[2].split('.').map(Number);
+		text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+	}
+
+	const halves = text.split('::');
+	if (halves.length > 2) {
+		return undefined;
+	}
+	const head = halves[0] ? halves[0].split(':') : [];
+	const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+	const missing = 8 - head.length - tail.length;
+	if (halves.length === 2 ? missing < 1 : missing !== 0) {
+		return undefined;
+	}
+	const groups = [...head, ...new Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+	if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) {
+		return undefined;
+	}
+	return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * DNS lookup for download sockets that fails when the host resolves to a private
+ * address. The check runs on the addresses the socket then connects to, so a host
+ * cannot pass it with a public address and be re-resolved to a private one for the
+ * request (DNS rebinding).
+ */
+function publicAddressLookup(
+	hostname: string,
+	options: LookupOptions,
+	callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+	lookup(hostname, { ...options, all: true }, (error, addresses) => {
+		if (error) {
+			callback(error, '');
+			return;
+		}
+		if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+			const privateError: NodeJS.ErrnoException = new Error(`Host '${hostname}' resolves to a private or loopback address`);
+			privateError.code = PRIVATE_ADDRESS_ERROR;
+			callback(privateError, '');
+			return;
+		}
+		if (options.all) {
+			callback(null, addresses);
+		} else {
+			callback(null, addresses[0].address, addresses[0].family);
+		}
+	});
+}
+
+/**
+ * Check that a document URL uses http(s) and points at an allowed host.
+ * This is all that applies when PDF4ME fetches the URL itself.
+ */
+export function assertUrlTarget(
+	this: IExecuteFunctions,
+	url: URL,
+	allowedHosts: string[],
+	index: number,
+): void {
+	if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+		throw new NodeOperationError(this.getNode(), `Only http and https document URLs are supported, got: ${url.protocol}`, { itemIndex: index });
+	}
+
+	const hostname = url.hostname.replace(/^\[|\]$/g, '');
+	if (!isHostAllowed(hostname, allowedHosts)) {
+		throw new NodeOperationError(this.getNode(), `Host '${hostname}' is not in the allowed hosts list`, { itemIndex: index });
+	}
+}
+
+/**
+ * Parse a user-supplied document URL, failing with an item-level error when it is malformed.
+ */
+export function parseDocumentUrl(this: IExecuteFunctions, documentUrl: string, index: number): URL {
+	try {
+		return new URL(documentUrl.trim());
+	} catch {
+		throw new NodeOperationError(this.getNode(), `Invalid document URL: ${documentUrl}`, { itemIndex: index });
+	}
+}
+
+function assertUrlAllowed(
+	this: IExecuteFunctions,
+	url: URL,
+	options: IDownloadOptions,
+	index: number,
+): void {
+	assertUrlTarget.call(this, url, options.allowedHosts, index);
+
+	// Host names are checked when the download connects, see publicAddressLookup
+	const hostname = url.hostname.replace(/^\[|\]$/g, '');
+	if (!options.allowPrivateNetwork && isIP(hostname) && isPrivateAddress(hostname)) {
+		throw privateNetworkError.call(this, hostname, index);
+	}
+}
+
+function privateNetworkError(this: IExecuteFunctions, hostname: string, index: number): NodeOperationError {
+	return new NodeOperationError(
+		this.getNode(),
+		`Host '${hostname}' resolves to a private or loopback address. Enable "Allow Private Network" to download from it.`,
+		{ itemIndex: index },
+	);
+}
+
+/**
+ * Headers of the credential chosen for downloading, applied here because the
+ * download does not go through n8n's request helpers.
+ */
+async function getAuthenticationHeaders(
+	this: IExecuteFunctions,
+	options: IDownloadOptions,
+	index: number,
+): Promise<Record<string, string>> {
+	if (options.authentication === 'httpHeaderAuth') {
+		const credentials = await this.getCredentials('httpHeaderAuth', index);
+		return { [credentials.name as string]: credentials.value as string };
+	}
+	if (options.authentication === 'httpBasicAuth') {
+		const credentials = await this.getCredentials('httpBasicAuth', index);
+		const token = Buffer.from(`${credentials.user ?? ''}:${credentials.password ?? ''}`).toString('base64');
+		return { Authorization: `Basic ${token}` };
+	}
+	return {};
+}
+
+/**
+ * Send one GET without following redirects. n8n's request helpers cannot take a
+ * custom DNS lookup, so Node's client is used to pin the checked address.
+ */
+async function sendDownloadRequest(
+	this: IExecuteFunctions,
+	url: URL,
+	headers: Record<string, string>,
+	options: IDownloadOptions,
+	index: number,
+): Promise<IncomingMessage> {
+	const hostname = url.hostname.replace(/^\[|\]$/g, '');
+	const client = url.protocol === 'https:' ? https : http;
+	try {
+		return await new Promise<IncomingMessage>((resolve, reject) => {
+			const request = client.get(
+				url,
+				{
+					// Compressed bodies are not decoded, so ask for the document as it is
+					headers: { 'Accept-Encoding': 'identity', ...headers },
+					lookup: options.allowPrivateNetwork ? undefined : publicAddressLookup,
+					timeout: DOWNLOAD_TIMEOUT_MS,
+				},
+				resolve,
+			);
+			request.on('timeout', () => request.destroy(new Error(`Download timed out after ${DOWNLOAD_TIMEOUT_MS / 1000} seconds`)));
+			request.on('error', reject);
+		});
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === PRIVATE_ADDRESS_ERROR) {
+			throw privateNetworkError.call(this, hostname, index);
+		}
+		throw withErrorCode(
+			new NodeOperationError(this.getNode(), `Downloading the document from '${hostname}' failed: ${(error as Error).message}`, { itemIndex: index }),
+			Pdf4meErrorCode.NetworkError,
+		);
+	}
+}
+
+/**
+ * Base64-encode a stream chunk by chunk, failing as soon as it grows past maxSize.
+ * Only the encoded text is kept, never a full copy of the raw bytes.
+ */
+export async function readStreamAsBase64(
+	this: IExecuteFunctions,
+	stream: Readable,
+	maxSize: number,
+	index: number,
+): Promise<string> {
+	const parts: string[] = [];
+	let remainder = Buffer.alloc(0);
+	let size = 0;
+	for await (const chunk of stream) {
+		const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+		size += buffer.length;
+		if (size > maxSize) {
+			stream.destroy();
+			throw new NodeOperationError(
+				this.getNode(),
+				`Document exceeds the ${formatMegabytes(maxSize)} MB limit`,
+				{ itemIndex: index },
+			);
+		}
+		// Encode whole 3-byte groups only so the parts concatenate into valid base64
+		const data = remainder.length > 0 ? Buffer.concat([remainder, buffer]) : buffer;
+		const usable = data.length - (data.length % 3);
+		parts.push(data.toString('base64', 0, usable));
+		remainder = data.subarray(usable);
+	}
+	parts.push(remainder.toString('base64'));
+	return parts.join('');
+}
+
+export function formatMegabytes(bytes: number): string {
+	return Number((bytes / 1024 / 1024).toFixed(1)).toString();
+}
+
+/**
+ * Download a document from a user-supplied URL. The URL and every redirect target
+ * are checked against the allowlist and, unless allowed, private and loopback
+ * addresses, at the time each request connects. The body is streamed, rejected
+ * once it exceeds maxSize, and returned as base64.
+ */
+export async function downloadDocument(
+	this: IExecuteFunctions,
+	index: number,
+	documentUrl: string,
+	options: IDownloadOptions,
+): Promise<string> {
+	let url = parseDocumentUrl.call(this, documentUrl, index);
+	const originalOrigin = url.origin;
+	const authenticationHeaders = await getAuthenticationHeaders.call(this, options, index);
+
+	for (let redirects = 0; ; redirects++) {
+		assertUrlAllowed.call(this, url, options, index);
+
+		// Credentials are only sent to the origin the user configured
+		const headers = url.origin === originalOrigin ? authenticationHeaders : {};
+		const response = await sendDownloadRequest.call(this, url, headers, options, index);
+
+		const body: Readable = response;
+		const statusCode = response.statusCode ?? 0;
+
+		if (statusCode >= 300 && statusCode < 400 && response.headers?.location) {
+			body?.destroy?.();
+			if (redirects >= MAX_REDIRECTS) {
+				throw new NodeOperationError(this.getNode(), `Too many redirects while downloading ${documentUrl}`, { itemIndex: index });
+			}
+			url = new URL(response.headers.location, url);
+			continue;
+		}
+
+		if (statusCode < 200 || statusCode >= 300) {
+			body?.destroy?.();
+			throw withErrorCode(
+				new NodeOperationError(this.getNode(), `Downloading the document failed with HTTP ${statusCode}`, { itemIndex: index }),
+				Pdf4meErrorCode.DownloadFailed,
+				isRetryableStatus(statusCode),
+			);
+		}
+
+		const contentLength = Number(response.headers?.['content-length']);
+		if (contentLength > options.maxSize) {
+			body?.destroy?.();
+			throw new NodeOperationError(
+				this.getNode(),
+				`Document at ${url.host} is ${formatMegabytes(contentLength)} MB, which exceeds the ${formatMegabytes(options.maxSize)} MB limit`,
+				{ itemIndex: index },
+			);
+		}
+
+		return await readStreamAsBase64.call(this, body, options.maxSize, index);
+	}
+}
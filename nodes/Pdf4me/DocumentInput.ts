@@ -0,0 +1,1222 @@
+import type { IDataObject, IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import type { IDownloadOptions } from './DocumentDownload';
+import {
+	assertUrlTarget,
+	downloadDocument,
+	formatMegabytes,
+	parseAllowedHosts,
+	parseDocumentUrl,
+	readStreamAsBase64,
+} from './DocumentDownload';
+import type { IAsyncRequestOptions } from './GenericFunctions';
+import { getAsyncRequestOptions, isJobHandle, pdf4meAsyncRequest } from './GenericFunctions';
+import { isZipArchive, readZipArchive } from './ZipArchive';
+import type { IEmailMessage } from './EmailMessage';
+import { parseEmail } from './EmailMessage';
+import { countPdfPages, formatPageRange, isEncryptedPdf, parsePageRange } from './PdfDocument';
+import { Pdf4meErrorCode, withDefaultErrorCode, withErrorCode } from './Errors';
+import { getResultCacheKey, getResultCacheOptions, readCachedResult, writeCachedResult } from './ResultCache';
+
+/**
+ * Describes the document an AI operation accepts. Used both to generate the
+ * shared input parameters and to resolve them at execution time.
+ */
+export interface IDocumentInputOptions {
+	operation: string;
+	endpoint: string;
+	label: string;
+	title: string;
+	urlPlaceholder: string;
+	// Name of the operation's URL parameter before Document URL was shared, still read by saved workflows
+	legacyUrlParameter?: string;
+	// Offer Page Range and Split Mode for multi-document PDFs
+	pageSelection?: boolean;
+}
+
+export interface IResolvedDocument {
+	docContent: string;
+	docName: string;
+	// Set instead of docContent when PDF4ME should fetch the document itself
+	docUrl?: string;
+	mimeType: string;
+	size: number;
+	source: string;
+	// Where the document came from within the item, merged into each result's _metadata
+	metadata?: IDataObject;
+	encrypted?: boolean;
+	// Password sent to PDF4ME to open an encrypted PDF
+	password?: string;
+}
+
+/**
+ * Processes one resolved document of an input item and returns its output items.
+ */
+export type DocumentProcessor = (
+	this: IExecuteFunctions,
+	index: number,
+	document: IResolvedDocument,
+) => Promise<INodeExecutionData[]>;
+
+/**
+ * A document format recognised from its leading bytes.
+ */
+export interface IDocumentFormat {
+	name: string;
+	mimeType: string;
+	extension: string;
+	extensions: string[];
+	matches: (header: Buffer) => boolean;
+}
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+/**
+ * Formats accepted by the AI operations, identified by magic bytes.
+ */
+export const DOCUMENT_FORMATS: IDocumentFormat[] = [
+	{
+		name: 'PDF',
+		mimeType: 'application/pdf',
+		extension: 'pdf',
+		extensions: ['pdf'],
+		matches: (header) => header.toString('latin1', 0, 5) === '%PDF-',
+	},
+	{
+		name: 'JPEG',
+		mimeType: 'image/jpeg',
+		extension: 'jpg',
+		extensions: ['jpg', 'jpeg', 'jpe'],
+		matches: (header) => header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff,
+	},
+	{
+		name: 'PNG',
+		mimeType: 'image/png',
+		extension: 'png',
+		extensions: ['png'],
+		matches: (header) => header.toString('hex', 0, 8) === '89504e470d0a1a0a',
+	},
+	{
+		name: 'TIFF',
+		mimeType: 'image/tiff',
+		extension: 'tiff',
+		extensions: ['tif', 'tiff'],
+		matches: (header) => ['49492a00', '4d4d002a'].includes(header.toString('hex', 0, 4)),
+	},
+	{
+		name: 'WebP',
+		mimeType: 'image/webp',
+		extension: 'webp',
+		extensions: ['webp'],
+		matches: (header) => header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WEBP',
+	},
+	{
+		name: 'HEIC',
+		mimeType: 'image/heic',
+		extension: 'heic',
+		extensions: ['heic', 'heif'],
+		matches: (header) =>
+			header.toString('latin1', 4, 8) === 'ftyp' && HEIC_BRANDS.includes(header.toString('latin1', 8, 12)),
+	},
+];
+
+const SUPPORTED_FORMAT_NAMES = DOCUMENT_FORMATS.map((format) => format.name).join(', ');
+const KNOWN_EXTENSIONS = DOCUMENT_FORMATS.flatMap((format) => format.extensions);
+
+/**
+ * Identify a document from its leading bytes. Returns undefined for unsupported formats.
+ */
+export function detectDocumentFormat(header: Buffer): IDocumentFormat | undefined {
+	return DOCUMENT_FORMATS.find((format) => format.matches(header));
+}
+
+/**
+ * Give a document name the extension of its detected format, replacing a
+ * different known document extension or appending one when missing.
+ */
+export function withFormatExtension(docName: string, format: IDocumentFormat): string {
+	const name = docName.trim() || 'document';
+	const match = /\.([A-Za-z0-9]+)$/.exec(name);
+	if (match) {
+		const extension = match[1].toLowerCase();
+		if (format.extensions.includes(extension)) {
+			return name;
+		}
+		if (KNOWN_EXTENSIONS.includes(extension)) {
+			return `${name.slice(0, -match[0].length)}.${format.extension}`;
+		}
+	}
+	return `${name}.${format.extension}`;
+}
+
+// Default for the largest document accepted from any input source
+export const MAX_DOCUMENT_SIZE_BYTES = 50 * 1024 * 1024;
+
+// Defaults for unpacking ZIP archives
+const ZIP_MAX_ENTRIES = 100;
+const ZIP_MAX_UNCOMPRESSED_SIZE_BYTES = 200 * 1024 * 1024;
+
+
+// PDF4ME endpoint that cuts the selected pages out of a PDF
+const EXTRACT_PAGES_ENDPOINT = '/api/v2/Extract';
+
+// Chunk size for reading binary data stored outside of memory
+const BINARY_STREAM_CHUNK_SIZE = 256 * 1024;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Statuses with which an endpoint may reject a docUrl payload
+const URL_UNSUPPORTED_STATUSES = ['400', '415', '422'];
+
+/**
+ * Build the Input Data Type, Input Binary Field, Base64 Content and Document URL
+ * parameters for one operation. Parameter names are identical across operations.
+ */
+export function documentInputDescription(input: IDocumentInputOptions): INodeProperties[] {
+	const pageSelection: INodeProperties[] = [
+		{
+			displayName: 'Page Range',
+			name: 'pageRange',
+			type: 'string',
+			default: '',
+			placeholder: '1-3,7',
+			description: `Pages of the ${input.label} PDF to process, such as 1-3,7 or 5-. Leave empty for all pages.`,
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+				},
+			},
+		},
+		{
+			displayName: 'Split Mode',
+			name: 'splitMode',
+			type: 'options',
+			default: 'none',
+			description: 'Whether to extract the selected pages together or in separate parts, each producing its own output item',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+				},
+			},
+			options: [
+				{
+					name: 'No Split',
+					value: 'none',
+					description: 'Process the selected pages as one document',
+				},
+				{
+					name: 'Each Page',
+					value: 'page',
+					description: 'Process every selected page separately',
+				},
+				{
+					name: 'Fixed-Size Chunks',
+					value: 'chunk',
+					description: 'Process the selected pages in groups of a fixed number of pages',
+				},
+			],
+		},
+		{
+			displayName: 'Pages per Chunk',
+			name: 'pagesPerChunk',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 5,
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					splitMode: ['chunk'],
+				},
+			},
+		},
+	];
+
+	// Keeps the URL of workflows saved before the parameter was renamed, so they still run
+	const legacyUrl: INodeProperties[] = input.legacyUrlParameter
+		? [
+			{
+				displayName: `Legacy ${input.title} URL`,
+				name: input.legacyUrlParameter,
+				type: 'hidden',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: [input.operation],
+						inputDataType: ['url'],
+					},
+				},
+			},
+		]
+		: [];
+
+	return [
+		{
+			displayName: 'Input Data Type',
+			name: 'inputDataType',
+			type: 'options',
+			required: true,
+			default: 'binaryData',
+			description: `Choose how to provide the ${input.label} document to process`,
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+				},
+			},
+			options: [
+				{
+					name: 'Binary Data',
+					value: 'binaryData',
+					description: `Use ${input.label} file from previous node`,
+				},
+				{
+					name: 'Base64 String',
+					value: 'base64',
+					description: `Provide ${input.label} content as base64 encoded string`,
+				},
+				{
+					name: 'URL',
+					value: 'url',
+					description: `Provide URL to ${input.label} file`,
+				},
+				{
+					name: 'Email File',
+					value: 'email',
+					description: `Use the ${input.label} attachments of an .eml or .msg file from previous node`,
+				},
+			],
+		},
+		{
+			displayName: 'Input Binary Field',
+			name: 'binaryPropertyName',
+			type: 'string',
+			required: false,
+			default: 'data',
+			description: `Name of the binary property that contains the ${input.label} file`,
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['binaryData'],
+					binaryPropertyMode: ['single'],
+				},
+			},
+		},
+		// Binary Properties is only offered for binary data, so emails get their own field
+		{
+			displayName: 'Input Binary Field',
+			name: 'binaryPropertyName',
+			type: 'string',
+			required: false,
+			default: 'data',
+			description: 'Name of the binary property that contains the .eml or .msg file',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['email'],
+				},
+			},
+		},
+		{
+			displayName: 'Attachment Types',
+			name: 'emailAttachmentTypes',
+			type: 'multiOptions',
+			default: ['pdf', 'image'],
+			description: 'Which email attachments to process. The type is detected from the file content.',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['email'],
+				},
+			},
+			options: [
+				{
+					name: 'PDF',
+					value: 'pdf',
+				},
+				{
+					name: 'Image',
+					value: 'image',
+				},
+			],
+		},
+		{
+			displayName: 'Attachment Name Pattern',
+			name: 'emailAttachmentPattern',
+			type: 'string',
+			default: '',
+			placeholder: 'invoice*.pdf',
+			description: 'Only process attachments whose file name matches. Use * for any characters and ? for a single character. Leave empty to process all.',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['email'],
+				},
+			},
+		},
+		{
+			displayName: 'Binary Properties',
+			name: 'binaryPropertyMode',
+			type: 'options',
+			default: 'single',
+			description: 'Which binary properties of each item to process. Every document produces its own output item.',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['binaryData'],
+				},
+			},
+			options: [
+				{
+					name: 'Single Property',
+					value: 'single',
+					description: 'Process the property named in Input Binary Field',
+				},
+				{
+					name: 'All Properties',
+					value: 'all',
+					description: 'Process every binary property of the item',
+				},
+				{
+					name: 'Matching Pattern',
+					value: 'pattern',
+					description: 'Process the binary properties whose names match a pattern',
+				},
+			],
+		},
+		{
+			displayName: 'Binary Property Pattern',
+			name: 'binaryPropertyPattern',
+			type: 'string',
+			required: true,
+			default: 'attachment_*',
+			description: 'Property names to process. Use * for any characters and ? for a single character.',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['binaryData'],
+					binaryPropertyMode: ['pattern'],
+				},
+			},
+		},
+		{
+			displayName: `Base64 ${input.title} Content`,
+			name: 'base64Content',
+			type: 'string',
+			typeOptions: {
+				alwaysOpenEditWindow: true,
+			},
+			required: true,
+			default: '',
+			description: `Base64 encoded ${input.label} content`,
+			placeholder: 'JVBERi0xLjQKJcfsj6IKNSAwIG9iago8PAovVHlwZSAvQ2F0YWxvZw...',
+			hint: `Supported formats: ${SUPPORTED_FORMAT_NAMES}`,
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['base64'],
+				},
+			},
+		},
+		{
+			displayName: `${input.title} URL`,
+			name: 'documentUrl',
+			type: 'string',
+			required: !input.legacyUrlParameter,
+			default: '',
+			description: `URL to the ${input.label} file to process`,
+			placeholder: input.urlPlaceholder,
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['url'],
+				},
+			},
+		},
+		...legacyUrl,
+		{
+			displayName: 'URL Handling',
+			name: 'urlHandling',
+			type: 'options',
+			default: 'download',
+			description: 'Whether n8n downloads the document or PDF4ME fetches it from the URL',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['url'],
+				},
+			},
+			options: [
+				{
+					name: 'Download in N8n',
+					value: 'download',
+					description: 'Download the document and upload its content to PDF4ME',
+				},
+				{
+					name: 'Send URL to PDF4ME',
+					value: 'passThrough',
+					description: 'Let PDF4ME fetch the URL directly; falls back to downloading if the operation does not accept URLs',
+				},
+			],
+		},
+		{
+			displayName: 'URL Authentication',
+			name: 'urlAuthentication',
+			type: 'options',
+			default: 'none',
+			description: 'Credential to send when downloading the document. The PDF4ME API key is never sent to document URLs.',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['url'],
+				},
+			},
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+				},
+				{
+					name: 'Header Auth',
+					value: 'httpHeaderAuth',
+				},
+				{
+					name: 'Basic Auth',
+					value: 'httpBasicAuth',
+				},
+			],
+		},
+		{
+			displayName: 'URL Download Options',
+			name: 'urlOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					inputDataType: ['url'],
+				},
+			},
+			options: [
+				{
+					displayName: 'Allow Private Network',
+					name: 'allowPrivateNetwork',
+					type: 'boolean',
+					default: false,
+					description: 'Whether to allow downloads from loopback, private and link-local addresses',
+				},
+				{
+					displayName: 'Allowed Hosts',
+					name: 'allowedHosts',
+					type: 'string',
+					default: '',
+					placeholder: 'files.example.com, *.blob.core.windows.net',
+					description: 'Comma-separated hosts the document may be downloaded from, including redirects. Leave empty to allow any public host.',
+				},
+			],
+		},
+		...(input.pageSelection ? pageSelection : []),
+		{
+			displayName: 'Document Password',
+			name: 'passwordSource',
+			type: 'options',
+			default: 'none',
+			description: `Password that opens an encrypted ${input.label} PDF`,
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+				},
+			},
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+				},
+				{
+					name: 'Enter Password',
+					value: 'parameter',
+				},
+				{
+					name: 'From Credential',
+					value: 'credential',
+					description: 'Read the password from a PDF4ME Document Password credential',
+				},
+			],
+		},
+		{
+			displayName: 'Password',
+			name: 'documentPassword',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			required: true,
+			default: '',
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+					passwordSource: ['parameter'],
+				},
+			},
+		},
+		{
+			displayName: 'Input Options',
+			name: 'inputOptions',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			displayOptions: {
+				show: {
+					operation: [input.operation],
+				},
+			},
+			options: [
+				{
+					displayName: 'Max Document Size (MB)',
+					name: 'maxDocumentSize',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: MAX_DOCUMENT_SIZE_BYTES / 1024 / 1024,
+					description: 'Largest document to accept. Bigger files are rejected before they are read into memory.',
+				},
+				{
+					displayName: 'ZIP Entry Extensions',
+					name: 'zipExtensions',
+					type: 'string',
+					default: KNOWN_EXTENSIONS.join(','),
+					description: 'Comma-separated file extensions to process from a ZIP archive. Other entries are skipped.',
+				},
+				{
+					displayName: 'ZIP Max Entries',
+					name: 'zipMaxEntries',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: ZIP_MAX_ENTRIES,
+					description: 'Reject ZIP archives with more entries than this',
+				},
+				{
+					displayName: 'ZIP Max Uncompressed Size (MB)',
+					name: 'zipMaxUncompressedSize',
+					type: 'number',
+					typeOptions: {
+						minValue: 1,
+					},
+					default: ZIP_MAX_UNCOMPRESSED_SIZE_BYTES / 1024 / 1024,
+					description: 'Reject ZIP archives whose selected entries unpack to more than this',
+				},
+			],
+		},
+	];
+}
+
+/**
+ * Resolve every document of an item, run processDocument on each and return all of
+ * their output items. Items produced from a document with source metadata (such as
+ * its binary property) carry that metadata in _metadata. Encrypted PDFs fail with
+ * PDF_ENCRYPTED unless a document password is configured.
+ */
+export async function processDocuments(
+	this: IExecuteFunctions,
+	index: number,
+	input: IDocumentInputOptions,
+	processDocument: DocumentProcessor,
+): Promise<INodeExecutionData[]> {
+	// Failures while reading and splitting the input are input errors unless coded otherwise
+	const documents = await resolveDocumentInputs.call(this, index, input).catch((error) => {
+		throw withDefaultErrorCode(error, Pdf4meErrorCode.InvalidInput);
+	});
+	const password = await getDocumentPassword.call(this, index);
+	const results: INodeExecutionData[] = [];
+	for (const document of documents) {
+		if (document.encrypted && !password) {
+			throw encryptedPdfError.call(this, index, document.docName);
+		}
+		const parts = await selectPages.call(this, index, input, { ...document, password }).catch((error) => {
+			throw withDefaultErrorCode(error, Pdf4meErrorCode.InvalidInput);
+		});
+		for (const part of parts) {
+			const items = await processDocument.call(this, index, part);
+			results.push(...items.map((item) => withDocumentMetadata(item, part.metadata)));
+		}
+	}
+	return results;
+}
+
+/**
+ * Read the documents for an item from the configured input source as base64.
+ * Binary input yields one document per selected binary property and email input
+ * one per selected attachment; every other source yields exactly one document.
+ *
+ * All documents go through the same validation: non-empty, within the configured
+ * maximum size, well-formed base64, and one of DOCUMENT_FORMATS. The returned docName
+ * carries the extension of the detected format, which is how the API learns the type.
+ *
+ * URL inputs in "Send URL to PDF4ME" mode are not downloaded: the result carries
+ * docUrl instead of content, and pdf4meDocumentRequest falls back to a download
+ * if the endpoint does not accept it.
+ */
+export async function resolveDocumentInputs(
+	this: IExecuteFunctions,
+	index: number,
+	input: IDocumentInputOptions,
+): Promise<IResolvedDocument[]> {
+	const inputDataType = this.getNodeParameter('inputDataType', index) as string;
+	const requestedDocName = this.getNodeParameter('docName', index, '') as string;
+	const maxSize = getMaxDocumentSize.call(this, index);
+
+	if (inputDataType === 'binaryData') {
+		const binaryPropertyMode = this.getNodeParameter('binaryPropertyMode', index, 'single') as string;
+		const documents: IResolvedDocument[] = [];
+
+		if (binaryPropertyMode === 'single') {
+			const binaryPropertyName = this.getNodeParameter('binaryPropertyName', index, 'data') as string;
+			const item = this.getInputData(index);
+
+			if (!item[0].binary || !item[0].binary[binaryPropertyName]) {
+				throw new NodeOperationError(this.getNode(), `No binary data found in property '${binaryPropertyName}'`, { itemIndex: index });
+			}
+
+			const docContent = await readBinaryAsBase64.call(this, index, binaryPropertyName, maxSize);
+			return expandDocument.call(this, index, input, docContent, requestedDocName, inputDataType, maxSize, {
+				archiveName: item[0].binary[binaryPropertyName].fileName,
+			});
+		}
+
+		// Several documents per item: name each after its file and tag it with its property
+		for (const binaryPropertyName of getBinaryPropertyNames.call(this, index, binaryPropertyMode)) {
+			const { fileName } = this.helpers.assertBinaryData(index, binaryPropertyName);
+			const docContent = await readBinaryAsBase64.call(this, index, binaryPropertyName, maxSize);
+			documents.push(
+				...expandDocument.call(this, index, input, docContent, fileName || requestedDocName, inputDataType, maxSize, {
+					metadata: { binaryProperty: binaryPropertyName },
+				}),
+			);
+		}
+		return documents;
+	}
+
+	if (inputDataType === 'email') {
+		const binaryPropertyName = this.getNodeParameter('binaryPropertyName', index, 'data') as string;
+		const item = this.getInputData(index);
+
+		if (!item[0].binary || !item[0].binary[binaryPropertyName]) {
+			throw new NodeOperationError(this.getNode(), `No binary data found in property '${binaryPropertyName}'`, { itemIndex: index });
+		}
+
+		const emailContent = await readBinaryAsBase64.call(this, index, binaryPropertyName, maxSize);
+		return extractEmailAttachments.call(this, index, input, Buffer.from(emailContent, 'base64'), maxSize);
+	}
+
+	let docContent: string;
+
+	// Handle the remaining input data types - convert to base64
+	if (inputDataType === 'base64') {
+		docContent = (this.getNodeParameter('base64Content', index) as string) || '';
+
+		// Remove data URL prefix if present (e.g., "data:application/pdf;base64,")
+		if (docContent.includes(',')) {
+			docContent = docContent.split(',')[1];
+		}
+		docContent = docContent.replace(/\s/g, '');
+	} else if (inputDataType === 'url') {
+		const documentUrl = getDocumentUrl.call(this, index, input);
+		const urlHandling = this.getNodeParameter('urlHandling', index, 'download') as string;
+		const downloadOptions = getDownloadOptions.call(this, index, maxSize);
+
+		// Credentials cannot be handed to PDF4ME and pages cannot be selected without the
+		// content, so authenticated URLs and page selections are always downloaded
+		if (
+			urlHandling === 'passThrough' &&
+			downloadOptions.authentication === 'none' &&
+			!hasPageSelection.call(this, index, input)
+		) {
+			const url = parseDocumentUrl.call(this, documentUrl, index);
+			assertUrlTarget.call(this, url, downloadOptions.allowedHosts, index);
+			return [
+				{
+					docContent: '',
+					docName: requestedDocName.trim() || 'document',
+					docUrl: url.toString(),
+					mimeType: '',
+					size: 0,
+					source: inputDataType,
+				},
+			];
+		}
+
+		// Download file from URL and convert to base64
+		docContent = await downloadDocument.call(this, index, documentUrl, downloadOptions);
+	} else {
+		throw new NodeOperationError(this.getNode(), `Unsupported input data type: ${inputDataType}`, { itemIndex: index });
+	}
+
+	return expandDocument.call(this, index, input, docContent, requestedDocName, inputDataType, maxSize);
+}
+
+/**
+ * Read the Document URL parameter, falling back to the operation's former URL
+ * parameter for workflows saved before it was renamed.
+ */
+function getDocumentUrl(this: IExecuteFunctions, index: number, input: IDocumentInputOptions): string {
+	let documentUrl = (this.getNodeParameter('documentUrl', index, '') as string).trim();
+	if (!documentUrl && input.legacyUrlParameter) {
+		documentUrl = (this.getNodeParameter(input.legacyUrlParameter, index, '') as string).trim();
+	}
+	if (!documentUrl) {
+		throw withErrorCode(
+			new NodeOperationError(this.getNode(), `${input.title} URL is required`, { itemIndex: index }),
+			Pdf4meErrorCode.InvalidInput,
+		);
+	}
+	return documentUrl;
+}
+
+/**
+ * Send a resolved document to its AI endpoint, or answer from the result cache when
+ * it is enabled and the same content was processed with the same fields before.
+ * Whether the cache answered is recorded in the document's metadata, which
+ * processDocuments merges into `_metadata` of the output items.
+ */
+export async function pdf4meDocumentRequest(
+	this: IExecuteFunctions,
+	index: number,
+	input: IDocumentInputOptions,
+	document: IResolvedDocument,
+	payload: IDataObject,
+	asyncOptions: IAsyncRequestOptions,
+): Promise<Buffer | IDataObject | string> {
+	const cache = getResultCacheOptions.call(this, index);
+	// Only finished results of uploaded content can be recognized again
+	if (cache.storage === 'none' || !asyncOptions.waitForCompletion || document.docUrl !== undefined) {
+		return await sendDocumentRequest.call(this, index, input, document, payload, asyncOptions);
+	}
+
+	const key = getResultCacheKey(input.operation, payload);
+	const cached = await readCachedResult.call(this, cache, key);
+	document.metadata = { ...document.metadata, cacheHit: cached !== undefined };
+	if (cached) {
+		return cached;
+	}
+
+	const result = await sendDocumentRequest.call(this, index, input, document, payload, asyncOptions);
+	if (typeof result === 'object' && !Buffer.isBuffer(result) && !isJobHandle(result)) {
+		await writeCachedResult.call(this, cache, key, result);
+	}
+	return result;
+}
+
+/**
+ * Send a resolved document to its AI endpoint. The document goes into the payload
+ * as docContent, or as docUrl when it was resolved for pass-through. When the endpoint
+ * rejects docUrl, the document is downloaded and sent as content for this request only:
+ * the same statuses also mean a bad field or a URL that PDF4ME could not reach, so the
+ * rejection says nothing about later requests.
+ */
+async function sendDocumentRequest(
+	this: IExecuteFunctions,
+	index: number,
+	input: IDocumentInputOptions,
+	document: IResolvedDocument,
+	payload: IDataObject,
+	asyncOptions: IAsyncRequestOptions,
+): Promise<Buffer | IDataObject | string> {
+	const body: IDataObject = document.password ? { ...payload, password: document.password } : payload;
+	if (document.docUrl === undefined) {
+		return await pdf4meAsyncRequest.call(this, input.endpoint, body, 'POST', {}, {}, asyncOptions, 'json');
+	}
+
+	const urlPayload: IDataObject = { ...body, docUrl: document.docUrl };
+	delete urlPayload.docContent;
+	try {
+		return await pdf4meAsyncRequest.call(this, input.endpoint, urlPayload, 'POST', {}, {}, asyncOptions, 'json');
+	} catch (error) {
+		if (!(error instanceof NodeApiError) || !URL_UNSUPPORTED_STATUSES.includes(error.httpCode ?? '')) {
+			throw error;
+		}
+		// Fall through and send the downloaded content instead
+	}
+
+	const maxSize = getMaxDocumentSize.call(this, index);
+	const docContent = await downloadDocument.call(this, index, document.docUrl, getDownloadOptions.call(this, index, maxSize));
+	const downloaded = validateDocument.call(this, index, input, docContent, document.docName, 'url', maxSize);
+	if (downloaded.encrypted && !document.password) {
+		throw encryptedPdfError.call(this, index, downloaded.docName);
+	}
+	return await pdf4meAsyncRequest.call(
+		this,
+		input.endpoint,
+		{ ...body, docContent: downloaded.docContent, docName: downloaded.docName },
+		'POST',
+		{},
+		{},
+		asyncOptions,
+		'json',
+	);
+}
+
+/**
+ * Turn the content read from an input source into documents. A ZIP archive is unpacked
+ * within the configured limits and yields one document per entry with a selected
+ * extension, tagged with the archive name and entry path; anything else is validated
+ * as a single document.
+ */
+function expandDocument(
+	this: IExecuteFunctions,
+	index: number,
+	input: IDocumentInputOptions,
+	docContent: string,
+	docName: string,
+	source: string,
+	maxSize: number,
+	options: { archiveName?: string; metadata?: IDataObject } = {},
+): IResolvedDocument[] {
+	const { metadata } = options;
+	if (!isZipArchive(Buffer.from(docContent.substring(0, 8), 'base64'))) {
+		return [{ ...validateDocument.call(this, index, input, docContent, docName, source, maxSize), metadata }];
+	}
+
+	const archiveName = options.archiveName || docName;
+	assertDocumentSize.call(this, Buffer.byteLength(docContent, 'base64'), index, maxSize);
+
+	const inputOptions = this.getNodeParameter('inputOptions', index, {}) as IDataObject;
+	const extensions = ((inputOptions.zipExtensions as string) ?? KNOWN_EXTENSIONS.join(','))
+		.split(',')
+		.map((extension) => extension.trim().replace(/^\./, '').toLowerCase())
+		.filter((extension) => extension !== '');
+	const isSelected = (path: string) => {
+		// Skip the resource forks macOS adds to archives
+		if (path.startsWith('__MACOSX/')) {
+			return false;
+		}
+		const match = /\.([^./]+)$/.exec(path);
+		return match !== null && extensions.includes(match[1].toLowerCase());
+	};
+
+	let entries;
+	try {
+		entries = readZipArchive(
+			Buffer.from(docContent, 'base64'),
+			{
+				maxEntries: (inputOptions.zipMaxEntries as number) || ZIP_MAX_ENTRIES,
+				maxTotalSize: ((inputOptions.zipMaxUncompressedSize as number) || 0) * 1024 * 1024 || ZIP_MAX_UNCOMPRESSED_SIZE_BYTES,
+			},
+			isSelected,
+		);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Cannot read ZIP archive '${archiveName}': ${error.message}`, { itemIndex: index });
+	}
+
+	if (entries.length === 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`ZIP archive '${archiveName}' contains no files with the extensions ${extensions.join(', ')}`,
+			{ itemIndex: index },
+		);
+	}
+
+	return entries.map((entry) => {
+		const entryName = entry.path.split('/').pop() as string;
+		return {
+			...validateDocument.call(this, index, input, entry.data.toString('base64'), entryName, source, maxSize),
+			metadata: { ...metadata, archiveName, entryPath: entry.path },
+		};
+	});
+}
+
+/**
+ * Parse an .eml or .msg file and turn its PDF and image attachments that pass the
+ * type and name filters into documents tagged with the email's sender, subject and date.
+ */
+function extractEmailAttachments(
+	this: IExecuteFunctions,
+	index: number,
+	input: IDocumentInputOptions,
+	data: Buffer,
+	maxSize: number,
+): IResolvedDocument[] {
+	let email: IEmailMessage;
+	try {
+		email = parseEmail(data);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Cannot read email: ${error.message}`, { itemIndex: index });
+	}
+
+	const attachmentTypes = this.getNodeParameter('emailAttachmentTypes', index, ['pdf', 'image']) as string[];
+	const pattern = (this.getNodeParameter('emailAttachmentPattern', index, '') as string).trim();
+	const matcher = pattern ? globToRegExp(pattern, 'i') : undefined;
+
+	const documents: IResolvedDocument[] = [];
+	for (const attachment of email.attachments) {
+		const format = detectDocumentFormat(attachment.data.subarray(0, 64));
+		if (!format || !attachmentTypes.includes(format.name === 'PDF' ? 'pdf' : 'image')) {
+			continue;
+		}
+		if (matcher && !matcher.test(attachment.fileName)) {
+			continue;
+		}
+		documents.push({
+			...validateDocument.call(this, index, input, attachment.data.toString('base64'), attachment.fileName, 'email', maxSize),
+			metadata: {
+				email: {
+					sender: email.from,
+					subject: email.subject,
+					date: email.date ?? null,
+				},
+			},
+		});
+	}
+
+	if (documents.length === 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Email '${email.subject}' has ${email.attachments.length} attachment(s), none of them a ${input.label} matching the attachment filters`,
+			{ itemIndex: index },
+		);
+	}
+	return documents;
+}
+
+function hasPageSelection(this: IExecuteFunctions, index: number, input: IDocumentInputOptions): boolean {
+	if (!input.pageSelection) {
+		return false;
+	}
+	const pageRange = (this.getNodeParameter('pageRange', index, '') as string).trim();
+	const splitMode = this.getNodeParameter('splitMode', index, 'none') as string;
+	return pageRange !== '' || splitMode !== 'none';
+}
+
+/**
+ * Apply Page Range and Split Mode to a PDF. Each resulting part is cut out with the
+ * PDF4ME page extraction endpoint and records its page numbers in _metadata.pages.
+ * Documents without a page selection, and images, are returned unchanged.
+ */
+async function selectPages(
+	this: IExecuteFunctions,
+	index: number,
+	input: IDocumentInputOptions,
+	document: IResolvedDocument,
+): Promise<IResolvedDocument[]> {
+	if (!hasPageSelection.call(this, index, input) || document.mimeType !== 'application/pdf') {
+		return [document];
+	}
+
+	const pageRange = (this.getNodeParameter('pageRange', index, '') as string).trim();
+	const splitMode = this.getNodeParameter('splitMode', index, 'none') as string;
+	const pageCount = countPdfPages(document.docContent);
+
+	let pages: number[];
+	try {
+		if (pageRange !== '') {
+			pages = parsePageRange(pageRange, pageCount);
+		} else if (pageCount !== undefined) {
+			pages = Array.from({ length: pageCount }, (_, page) => page + 1);
+		} else {
+			throw new Error('the page count could not be read from the PDF, so a Page Range is required to split it');
+		}
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Cannot select pages of '${document.docName}': ${error.message}`, { itemIndex: index });
+	}
+	if (pages.length === 0) {
+		throw new NodeOperationError(this.getNode(), `Page Range '${pageRange}' selects no pages`, { itemIndex: index });
+	}
+
+	const partSize =
+		splitMode === 'page' ? 1 : splitMode === 'chunk' ? (this.getNodeParameter('pagesPerChunk', index, 5) as number) : pages.length;
+	const parts: number[][] = [];
+	for (let start = 0; start < pages.length; start += partSize) {
+		parts.push(pages.slice(start, start + partSize));
+	}
+
+	// The extraction is an intermediate step, so it always waits for its result
+	const asyncOptions = { ...getAsyncRequestOptions.call(this, index), waitForCompletion: true, callbackUrl: undefined };
+	const maxSize = getMaxDocumentSize.call(this, index);
+	const baseName = document.docName.replace(/\.pdf$/i, '');
+
+	const documents: IResolvedDocument[] = [];
+	for (const partPages of parts) {
+		const pageNumbers = formatPageRange(partPages);
+		const extracted = (await pdf4meAsyncRequest.call(
+			this,
+			EXTRACT_PAGES_ENDPOINT,
+			{
+				docContent: document.docContent,
+				docName: document.docName,
+				pageNumbers,
+				...(document.password && { password: document.password }),
+			},
+			'POST',
+			{},
+			{},
+			asyncOptions,
+			'binary',
+		)) as Buffer;
+		const partName = parts.length > 1 ? `${baseName}_pages_${pageNumbers}.pdf` : document.docName;
+		documents.push({
+			...validateDocument.call(this, index, input, extracted.toString('base64'), partName, document.source, maxSize),
+			metadata: { ...document.metadata, pages: partPages },
+			password: document.password,
+		});
+	}
+	return documents;
+}
+
+async function getDocumentPassword(this: IExecuteFunctions, index: number): Promise<string | undefined> {
+	const passwordSource = this.getNodeParameter('passwordSource', index, 'none') as string;
+	if (passwordSource === 'parameter') {
+		return (this.getNodeParameter('documentPassword', index, '') as string) || undefined;
+	}
+	if (passwordSource === 'credential') {
+		const credentials = await this.getCredentials('pdf4meDocumentPassword', index);
+		return (credentials.password as string) || undefined;
+	}
+	return undefined;
+}
+
+function encryptedPdfError(this: IExecuteFunctions, index: number, docName: string): NodeOperationError {
+	const error = new NodeOperationError(this.getNode(), `'${docName}' is a password-protected PDF`, {
+		itemIndex: index,
+		description: `Error code ${Pdf4meErrorCode.PdfEncrypted}. Set Document Password to process encrypted PDFs.`,
+	});
+	return withErrorCode(error, Pdf4meErrorCode.PdfEncrypted);
+}
+
+function getMaxDocumentSize(this: IExecuteFunctions, index: number): number {
+	const inputOptions = this.getNodeParameter('inputOptions', index, {}) as IDataObject;
+	const megabytes = (inputOptions.maxDocumentSize as number) || MAX_DOCUMENT_SIZE_BYTES / 1024 / 1024;
+	return megabytes * 1024 * 1024;
+}
+
+/**
+ * Read a binary property as base64 without buffering the file. In-memory binary data
+ * is already base64 and is used as-is; data in external storage is size-checked from
+ * its metadata and then streamed through the encoder.
+ */
+async function readBinaryAsBase64(
+	this: IExecuteFunctions,
+	index: number,
+	binaryPropertyName: string,
+	maxSize: number,
+): Promise<string> {
+	const binaryData = this.helpers.assertBinaryData(index, binaryPropertyName);
+
+	if (!binaryData.id) {
+		assertDocumentSize.call(this, Buffer.byteLength(binaryData.data, 'base64'), index, maxSize);
+		return binaryData.data;
+	}
+
+	const { fileSize } = await this.helpers.getBinaryMetadata(binaryData.id);
+	assertDocumentSize.call(this, fileSize, index, maxSize);
+	const stream = await this.helpers.getBinaryStream(binaryData.id, BINARY_STREAM_CHUNK_SIZE);
+	return await readStreamAsBase64.call(this, stream, maxSize, index);
+}
+
+/**
+ * Names of the binary properties to process in "All Properties" or "Matching Pattern"
+ * mode, in natural order so that attachment_2 comes before attachment_10.
+ */
+function getBinaryPropertyNames(this: IExecuteFunctions, index: number, binaryPropertyMode: string): string[] {
+	const item = this.getInputData(index);
+	let names = Object.keys(item[0].binary ?? {});
+
+	if (binaryPropertyMode === 'pattern') {
+		const pattern = this.getNodeParameter('binaryPropertyPattern', index) as string;
+		const matcher = globToRegExp(pattern.trim());
+		names = names.filter((name) => matcher.test(name));
+		if (names.length === 0) {
+			throw new NodeOperationError(this.getNode(), `No binary properties match '${pattern}'`, { itemIndex: index });
+		}
+	} else if (names.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'Item has no binary properties', { itemIndex: index });
+	}
+
+	return names.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+function globToRegExp(pattern: string, flags?: string): RegExp {
+	const source = pattern
+		.split('')
+		.map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+		.join('');
+	return new RegExp(`^${source}$`, flags);
+}
+
+function withDocumentMetadata(item: INodeExecutionData, metadata?: IDataObject): INodeExecutionData {
+	if (!metadata) {
+		return item;
+	}
+	const existing = (item.json._metadata ?? {}) as IDataObject;
+	return { ...item, json: { ...item.json, _metadata: { ...existing, ...metadata } } };
+}
+
+function getDownloadOptions(this: IExecuteFunctions, index: number, maxSize: number): IDownloadOptions {
+	const urlOptions = this.getNodeParameter('urlOptions', index, {}) as IDataObject;
+	return {
+		authentication: this.getNodeParameter('urlAuthentication', index, 'none') as IDownloadOptions['authentication'],
+		allowedHosts: parseAllowedHosts((urlOptions.allowedHosts as string) || ''),
+		allowPrivateNetwork: urlOptions.allowPrivateNetwork === true,
+		maxSize,
+	};
+}
+
+function validateDocument(
+	this: IExecuteFunctions,
+	index: number,
+	input: IDocumentInputOptions,
+	docContent: string,
+	requestedDocName: string,
+	source: string,
+	maxSize: number,
+): IResolvedDocument {
+	if (!docContent || docContent.trim() === '') {
+		throw new NodeOperationError(this.getNode(), `${capitalize(input.label)} content is required`, { itemIndex: index });
+	}
+
+	// Check the size before scanning the whole string
+	const size = Buffer.byteLength(docContent, 'base64');
+	assertDocumentSize.call(this, size, index, maxSize);
+
+	if (!BASE64_PATTERN.test(docContent)) {
+		throw new NodeOperationError(this.getNode(), `${capitalize(input.label)} content is not valid base64`, { itemIndex: index });
+	}
+
+	// Sniff the format from the first decoded bytes
+	const format = detectDocumentFormat(Buffer.from(docContent.substring(0, 64), 'base64'));
+	if (!format) {
+		throw withErrorCode(
+			new NodeOperationError(
+				this.getNode(),
+				`Unsupported ${input.label} format. Supported formats: ${SUPPORTED_FORMAT_NAMES}`,
+				{ itemIndex: index },
+			),
+			Pdf4meErrorCode.UnsupportedFormat,
+		);
+	}
+
+	return {
+		docContent,
+		docName: withFormatExtension(requestedDocName, format),
+		mimeType: format.mimeType,
+		size,
+		source,
+		encrypted: format.name === 'PDF' && isEncryptedPdf(docContent),
+	};
+}
+
+function assertDocumentSize(this: IExecuteFunctions, size: number, index: number, maxSize: number): void {
+	if (size > maxSize) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Document is ${formatMegabytes(size)} MB, which exceeds the ${formatMegabytes(maxSize)} MB limit`,
+			{ itemIndex: index },
+		);
+	}
+}
+
+function capitalize(text: string): string {
+	return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,240 @@
+import { isOutlookMessage, readOutlookMessage } from './OutlookMessage';
+
+export interface IEmailAttachment {
+	fileName: string;
+	contentType: string;
+	data: Buffer;
+}
+
+export interface IEmailMessage {
+	from: string;
+	subject: string;
+	date?: string;
+	attachments: IEmailAttachment[];
+}
+
+interface IMimeEntity {
+	headers: Record<string, string>;
+	body: Buffer;
+}
+
+interface IHeaderValue {
+	value: string;
+	params: Record<string, string>;
+}
+
+// Nested multiparts deeper than this are ignored
+const MAX_MIME_DEPTH = 20;
+
+/**
+ * Parse a saved email, either a MIME message (.eml) or an Outlook message (.msg),
+ * into its sender, subject, date and attachments. Throws an Error for unreadable input.
+ */
+export function parseEmail(data: Buffer): IEmailMessage {
+	if (isOutlookMessage(data)) {
+		return readOutlookMessage(data);
+	}
+	return parseMimeMessage(data);
+}
+
+function parseMimeMessage(data: Buffer): IEmailMessage {
+	const message = splitEntity(data);
+	if (Object.keys(message.headers).length === 0) {
+		throw new Error('File is not a MIME email message');
+	}
+
+	const attachments: IEmailAttachment[] = [];
+	collectAttachments(message, attachments, 0);
+
+	const rawDate = message.headers.date;
+	const date = rawDate ? new Date(rawDate) : undefined;
+
+	return {
+		from: decodeEncodedWords(message.headers.from ?? ''),
+		subject: decodeEncodedWords(message.headers.subject ?? ''),
+		date: date && !isNaN(date.getTime()) ? date.toISOString() : rawDate,
+		attachments,
+	};
+}
+
+function splitEntity(data: Buffer): IMimeEntity {
+	let separator = data.indexOf('\r\n\r\n');
+	let separatorLength = 4;
+	const lfSeparator = data.indexOf('\n\n');
+	if (separator === -1 || (lfSeparator !== -1 && lfSeparator < separator)) {
+		separator = lfSeparator;
+		separatorLength = 2;
+	}
+	if (separator === -1) {
+		separator = data.length;
+		separatorLength = 0;
+	}
+
+	const headers: Record<string, string> = {};
+	const headerText = data.toString('utf8', 0, separator).replace(/\r?\n[ \t]+/g, ' ');
+	for (const line of headerText.split(/\r?\n/)) {
+		const colon = line.indexOf(':');
+		if (colon <= 0) {
+			continue;
+		}
+		const name = line.slice(0, colon).trim().toLowerCase();
+		// Keep the first occurrence, which is the outermost for trace headers
+		if (/^[\x21-\x39\x3b-\x7e]+$/.test(name) && headers[name] === undefined) {
+			headers[name] = line.slice(colon + 1).trim();
+		}
+	}
+
+	return { headers, body: data.subarray(Math.min(separator + separatorLength, data.length)) };
+}
+
+function collectAttachments(entity: IMimeEntity, attachments: IEmailAttachment[], depth: number): void {
+	if (depth > MAX_MIME_DEPTH) {
+		return;
+	}
+
+	const contentType = parseHeaderValue(entity.headers['content-type'] ?? 'text/plain');
+	const mimeType = contentType.value.toLowerCase();
+	const disposition = parseHeaderValue(entity.headers['content-disposition'] ?? '');
+
+	if (mimeType.startsWith('multipart/') && contentType.params.boundary) {
+		for (const part of splitMultipart(entity.body, contentType.params.boundary)) {
+			collectAttachments(splitEntity(part), attachments, depth + 1);
+		}
+		return;
+	}
+
+	const body = decodeBody(entity.body, entity.headers['content-transfer-encoding']);
+
+	// Forwarded emails carry their attachments inside the embedded message
+	if (mimeType === 'message/rfc822') {
+		collectAttachments(splitEntity(body), attachments, depth + 1);
+		return;
+	}
+
+	const fileName = decodeEncodedWords(disposition.params.filename ?? contentType.params.name ?? '');
+	const isAttachment =
+		fileName !== '' || disposition.value.toLowerCase() === 'attachment' || !mimeType.startsWith('text/');
+	if (isAttachment && body.length > 0) {
+		attachments.push({ fileName: fileName || `attachment_${attachments.length + 1}`, contentType: mimeType, data: body });
+	}
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+	// latin1 maps bytes to characters one to one, so string offsets are byte offsets
+	const text = body.toString('latin1');
+	const delimiter = `--${boundary}`;
+	const parts: Buffer[] = [];
+
+	let position = 0;
+	if (!text.startsWith(delimiter)) {
+		const first = text.indexOf(`\n${delimiter}`);
+		position = first === -1 ? -1 : first + 1;
+	}
+	while (position !== -1) {
+		if (text.startsWith(`${delimiter}--`, position)) {
+			break;
+		}
+		const lineEnd = text.indexOf('\n', position);
+		if (lineEnd === -1) {
+			break;
+		}
+		const next = text.indexOf(`\n${delimiter}`, lineEnd);
+		const end = next === -1 ? text.length : next;
+		parts.push(body.subarray(lineEnd + 1, Math.max(lineEnd + 1, text[end - 1] === '\r' ? end - 1 : end)));
+		position = next === -1 ? -1 : next + 1;
+	}
+
+	return parts;
+}
+
+function decodeBody(body: Buffer, encoding = ''): Buffer {
+	switch (encoding.trim().toLowerCase()) {
+	case 'base64':
+		return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+	case 'quoted-printable':
+		return Buffer.from(decodeQuotedPrintable(body.toString('latin1')), 'latin1');
+	default:
+		return body;
+	}
+}
+
+function decodeQuotedPrintable(text: string): string {
+	return text
+		.replace(/=\r?\n/g, '')
+		.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Split a structured header such as Content-Type into its value and parameters,
+ * including RFC 2231 extended and continued parameters (filename*0*=utf-8''...).
+ */
+function parseHeaderValue(header: string): IHeaderValue {
+	const semicolon = header.indexOf(';');
+	const value = (semicolon === -1 ? header : header.slice(0, semicolon)).trim();
+	const segments: Record<string, Array<{ order: number; text: string; extended: boolean }>> = {};
+
+	const pattern = /;\s*([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+	let match;
+	while ((match = pattern.exec(header)) !== null) {
+		const key = match[1].toLowerCase();
+		const raw = match[2].trim();
+		const text = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+		const parts = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key);
+		if (!parts) {
+			continue;
+		}
+		(segments[parts[1]] ??= []).push({ order: Number(parts[2] ?? 0), text, extended: parts[3] === '*' });
+	}
+
+	const params: Record<string, string> = {};
+	for (const [name, list] of Object.entries(segments)) {
+		list.sort((a, b) => a.order - b.order);
+		let charset = 'utf-8';
+		params[name] = list
+			.map((segment, position) => {
+				if (!segment.extended) {
+					return segment.text;
+				}
+				let text = segment.text;
+				if (position === 0) {
+					const [declaredCharset, , encoded] = text.split('\'');
+					if (encoded !== undefined) {
+						charset = declaredCharset || charset;
+						text = encoded;
+					}
+				}
+				return decodeCharset(Buffer.from(percentDecode(text), 'latin1'), charset);
+			})
+			.join('');
+	}
+
+	return { value, params };
+}
+
+function percentDecode(text: string): string {
+	return text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeCharset(data: Buffer, charset: string): string {
+	try {
+		return new TextDecoder(charset.trim().toLowerCase()).decode(data);
+	} catch {
+		return data.toString('latin1');
+	}
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?utf-8?B?...?= and =?iso-8859-1?Q?...?=) in a header.
+ */
+function decodeEncodedWords(text: string): string {
+	return text
+		.replace(/(\?=)\s+(=\?)/g, '$1$2')
+		.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, encoded: string) => {
+			const data =
+				encoding.toUpperCase() === 'B'
+					? Buffer.from(encoded, 'base64')
+					: Buffer.from(decodeQuotedPrintable(encoded.replace(/_/g, ' ')), 'latin1');
+			// RFC 2231 allows a language suffix, e.g. utf-8*en
+			return decodeCharset(data, charset.split('*')[0]);
+		});
+}
@@ -0,0 +1,243 @@
+import type { IDataObject, INode, INodeExecutionData, JsonObject } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+
+/**
+ * Stable, machine-readable codes for every failure the node raises. The code and
+ * whether retrying the same item can succeed are kept in the error's context
+ * (`context.errorCode`, `context.retryable`) and reported in continueOnFail output.
+ */
+export const Pdf4meErrorCode = {
+	InvalidInput: 'INVALID_INPUT',
+	UnsupportedFormat: 'UNSUPPORTED_FORMAT',
+	PdfEncrypted: 'PDF_ENCRYPTED',
+	DownloadFailed: 'DOWNLOAD_FAILED',
+	AuthFailed: 'AUTH_FAILED',
+	QuotaExceeded: 'QUOTA_EXCEEDED',
+	RateLimited: 'RATE_LIMITED',
+	JobExpired: 'JOB_EXPIRED',
+	JobTimeout: 'JOB_TIMEOUT',
+	ExtractionEmpty: 'EXTRACTION_EMPTY',
+	UnsupportedDocumentType: 'UNSUPPORTED_DOCUMENT_TYPE',
+	LowConfidence: 'LOW_CONFIDENCE',
+	NetworkError: 'NETWORK_ERROR',
+	ApiError: 'API_ERROR',
+	UnknownError: 'UNKNOWN_ERROR',
+} as const;
+
+export type Pdf4meErrorCode = (typeof Pdf4meErrorCode)[keyof typeof Pdf4meErrorCode];
+
+/**
+ * What is known about a failure. statusCode, jobId, locationUrl and attempts are
+ * only set when the failure came from an HTTP answer or a started job. A failure
+ * that retrying could fix is either retryable (send the item again) or, once the
+ * job was started, resumable (fetch the job at locationUrl with Get Job Result).
+ */
+export interface IErrorDetails {
+	code: Pdf4meErrorCode;
+	retryable: boolean;
+	resumable: boolean;
+	message: string;
+	statusCode?: number;
+	jobId?: string;
+	locationUrl?: string;
+	attempts?: number;
+}
+
+type Pdf4meError = NodeApiError | NodeOperationError;
+
+// Codes whose failures are transient unless the error says otherwise. A job timeout is
+// not: the job keeps running, and sending the item again would start a second, billed job
+const RETRYABLE_CODES: Pdf4meErrorCode[] = [Pdf4meErrorCode.RateLimited, Pdf4meErrorCode.NetworkError];
+
+// Runs of base64 long enough to be document content rather than an ID or a word
+const BASE64_CONTENT = /(?:data:[\w.+-]+\/[\w.+-]+;base64,)?[A-Za-z0-9+/]{120,}={0,2}/g;
+const MAX_ERROR_MESSAGE_LENGTH = 1000;
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EPIPE'];
+
+export function isRetryableStatus(statusCode: number): boolean {
+	return statusCode === 429 || statusCode >= 500;
+}
+
+export function getErrorCodeForStatus(statusCode: number): Pdf4meErrorCode {
+	switch (statusCode) {
+	case 400:
+	case 422:
+		return Pdf4meErrorCode.InvalidInput;
+	case 401:
+	case 403:
+		return Pdf4meErrorCode.AuthFailed;
+	case 402:
+		return Pdf4meErrorCode.QuotaExceeded;
+	case 415:
+		return Pdf4meErrorCode.UnsupportedFormat;
+	case 429:
+		return Pdf4meErrorCode.RateLimited;
+	default:
+		return Pdf4meErrorCode.ApiError;
+	}
+}
+
+/**
+ * Attach a code to an error and return it, so it can be thrown in one statement.
+ */
+export function withErrorCode<T extends Pdf4meError>(
+	error: T,
+	code: Pdf4meErrorCode,
+	retryable = RETRYABLE_CODES.includes(code),
+): T {
+	error.context.errorCode = code;
+	error.context.retryable = retryable;
+	return error;
+}
+
+/**
+ * Attach a code to an n8n error that does not have one yet. Other errors are
+ * returned unchanged and classified by getErrorDetails.
+ */
+export function withDefaultErrorCode(error: unknown, code: Pdf4meErrorCode): unknown {
+	if ((error instanceof NodeApiError || error instanceof NodeOperationError) && !error.context.errorCode) {
+		withErrorCode(error, code);
+	}
+	return error;
+}
+
+/**
+ * Record where a failure happened (job, attempts) on an n8n error. Values the
+ * error already carries are kept, so the innermost caller wins. A transient failure
+ * of a started job becomes resumable instead of retryable: the job is still on the
+ * server, and sending the item again would start a second, billed job.
+ */
+export function withErrorContext<T>(error: T, context: IDataObject): T {
+	if (error instanceof NodeApiError || error instanceof NodeOperationError) {
+		for (const [key, value] of Object.entries(context)) {
+			if (value !== undefined && error.context[key] === undefined) {
+				error.context[key] = value;
+			}
+		}
+		if (
+			typeof error.context.locationUrl === 'string' &&
+			(error.context.retryable === true || error.context.errorCode === Pdf4meErrorCode.JobTimeout)
+		) {
+			error.context.retryable = false;
+			error.context.resumable = true;
+		}
+	}
+	return error;
+}
+
+/**
+ * Remove document content from an error message and cap its length. Messages can
+ * quote request or response bodies, which may hold the base64 document.
+ */
+export function sanitizeErrorMessage(message: string): string {
+	const sanitized = message.replace(BASE64_CONTENT, '[base64 content removed]');
+	return sanitized.length > MAX_ERROR_MESSAGE_LENGTH ? `${sanitized.slice(0, MAX_ERROR_MESSAGE_LENGTH)}...` : sanitized;
+}
+
+/**
+ * The error for a PDF4ME answer with an unexpected HTTP status, keeping the status as httpCode.
+ */
+export function createStatusError(
+	node: INode,
+	message: string,
+	statusCode: number,
+	code = getErrorCodeForStatus(statusCode),
+): NodeApiError {
+	const error = new NodeApiError(node, { message } as JsonObject, { message, httpCode: String(statusCode) });
+	return withErrorCode(error, code, isRetryableStatus(statusCode));
+}
+
+export function isNetworkError(error: unknown): boolean {
+	const { code, message } = (error ?? {}) as IDataObject;
+	return (
+		NETWORK_ERROR_CODES.includes(code as string) ||
+		NETWORK_ERROR_CODES.some((networkCode) => String(message ?? '').includes(networkCode)) ||
+		/\btimeout\b/i.test(String(message ?? ''))
+	);
+}
+
+/**
+ * Normalize an error from sending a document to PDF4ME. n8n errors are kept with
+ * their code; anything else was thrown by the HTTP client and is a connection failure.
+ */
+export function toRequestError(node: INode, error: unknown, index: number): Pdf4meError {
+	if (error instanceof NodeApiError || error instanceof NodeOperationError) {
+		return error;
+	}
+	const message = (error as Error)?.message || 'Unknown connection issue';
+	return withErrorCode(
+		new NodeOperationError(node, `Connection error: ${message}`, { itemIndex: index }),
+		isNetworkError(error) ? Pdf4meErrorCode.NetworkError : Pdf4meErrorCode.UnknownError,
+	);
+}
+
+/**
+ * Read the code, retryable flag, sanitized message and context of any error thrown
+ * while processing an item.
+ */
+export function getErrorDetails(error: unknown): IErrorDetails {
+	const message = sanitizeErrorMessage(String((error as Error)?.message ?? error));
+	const context = ((error as Pdf4meError)?.context ?? {}) as IDataObject;
+	const httpCode = error instanceof NodeApiError && /^\d+$/.test(error.httpCode ?? '') ? Number(error.httpCode) : undefined;
+
+	let code: Pdf4meErrorCode = Pdf4meErrorCode.UnknownError;
+	let retryable = false;
+	if (typeof context.errorCode === 'string') {
+		code = context.errorCode as Pdf4meErrorCode;
+		retryable = context.retryable === true;
+	} else if (httpCode !== undefined) {
+		code = getErrorCodeForStatus(httpCode);
+		retryable = isRetryableStatus(httpCode);
+	} else if (isNetworkError(error)) {
+		code = Pdf4meErrorCode.NetworkError;
+		retryable = true;
+	}
+
+	const details: IErrorDetails = { code, retryable, resumable: false, message };
+	if (httpCode !== undefined) {
+		details.statusCode = httpCode;
+	}
+	if (typeof context.jobId === 'string') {
+		details.jobId = context.jobId;
+	}
+	if (typeof context.locationUrl === 'string') {
+		details.locationUrl = context.locationUrl;
+	}
+	if (context.resumable === true) {
+		details.retryable = false;
+		details.resumable = true;
+	}
+	if (typeof context.attempts === 'number') {
+		details.attempts = context.attempts;
+	}
+	return details;
+}
+
+/**
+ * The output item for an input item that failed. It keeps the input's JSON and
+ * binary data, so the item can be sent through the node again, and describes the
+ * failure in `error`. The original error is replaced by a sanitized copy, since
+ * HTTP client errors can hold the request body with the document content.
+ */
+export function buildErrorItem(
+	node: INode,
+	item: INodeExecutionData,
+	index: number,
+	operation: string,
+	error: unknown,
+): INodeExecutionData {
+	const details = getErrorDetails(error);
+	const itemError = withErrorCode(
+		new NodeOperationError(node, details.message, { itemIndex: index }),
+		details.code,
+		details.retryable,
+	);
+	itemError.context.resumable = details.resumable;
+	return {
+		json: { ...item.json, error: { ...details, operation } as unknown as IDataObject },
+		...(item.binary && { binary: item.binary }),
+		error: itemError,
+		pairedItem: { item: index },
+	};
+}
@@ -1,13 +1,331 @@
 import type {
+	ICredentialTestFunctions,
+	ICredentialsDecrypted,
 	IDataObject,
+	INodeCredentialTestResult,
 	IExecuteFunctions,
+	INodeExecutionData,
 	IHookFunctions,
 	ILoadOptionsFunctions,
 	JsonObject,
 	IHttpRequestMethods,
 	IHttpRequestOptions,
+	IN8nHttpFullResponse,
 } from 'n8n-workflow';
-import { NodeApiError } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import { getRateLimit, getRateLimitKey, pauseRequests, releaseRequest, reserveRequest } from './RateLimiter';
+import {
+	createStatusError,
+	isNetworkError,
+	isRetryableStatus,
+	Pdf4meErrorCode,
+	withErrorCode,
+	withErrorContext,
+} from './Errors';
+
+/**
+ * Options controlling how pdf4meAsyncRequest retries the initial POST and polls a 202 job.
+ * All durations are in seconds, matching the node's "Async Job Options" collection.
+ */
+export interface IAsyncRequestOptions {
+	maxWaitTime: number;
+	pollInterval: number;
+	maxPollInterval: number;
+	exponentialBackoff: boolean;
+	jitter: boolean;
+	maxRetries: number;
+	waitStrategy: WaitStrategy;
+	honorRetryAfter: boolean;
+	waitForCompletion: boolean;
+	callbackUrl?: string;
+}
+
+/**
+ * How pdf4meAsyncRequest waits between polls and retries:
+ * - local: an in-process timer that stops when the execution is cancelled
+ * - remote: PDF4ME's AddDelay endpoint, for hosts that do not allow local timers
+ */
+export type WaitStrategy = 'local' | 'remote';
+
+type WaitFunction = (
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	ms: number,
+) => Promise<void>;
+
+export const DEFAULT_ASYNC_OPTIONS: IAsyncRequestOptions = {
+	maxWaitTime: 3600,
+	pollInterval: 10,
+	maxPollInterval: 60,
+	exponentialBackoff: false,
+	jitter: false,
+	maxRetries: 3,
+	waitStrategy: 'local',
+	honorRetryAfter: true,
+	waitForCompletion: true,
+};
+
+/**
+ * A PDF4ME job that is still running, returned instead of the result when
+ * waitForCompletion is off or a single poll finds the job unfinished.
+ */
+export interface IPdf4meJob extends IDataObject {
+	jobId: string;
+	locationUrl: string;
+	status: 'running';
+	callbackUrl?: string;
+}
+
+/**
+ * A job result posted back to a callback URL, normalized by verifyCallbackPayload.
+ */
+export interface ICallbackPayload {
+	jobId?: string;
+	status: 'completed' | 'failed';
+	result?: IDataObject;
+	error?: string;
+}
+
+const CALLBACK_SUCCESS_STATUSES = ['completed', 'complete', 'succeeded', 'success', 'done'];
+const CALLBACK_FAILURE_STATUSES = ['failed', 'failure', 'error', 'cancelled', 'expired'];
+
+// Tracks job handles created here so API results with similar keys are never mistaken for one
+const jobHandles = new WeakSet<object>();
+
+/**
+ * API endpoints selectable through the credential's Region field.
+ * "custom" uses the credential's Base URL instead.
+ */
+export const PDF4ME_REGION_URLS: Record<string, string> = {
+	global: 'https://api.pdf4me.com',
+};
+
+/**
+ * Expected body of a successful API response, declared by the caller:
+ * - json: parsed object (AI extraction endpoints)
+ * - binary: raw Buffer (generated files)
+ * - text: UTF-8 string
+ */
+export type ResponseKind = 'json' | 'binary' | 'text';
+
+// The AddDelay endpoint blocks for a fixed 10 seconds per call
+const REMOTE_DELAY_STEP_MS = 10000;
+
+const JOB_EXPIRED_MESSAGE = 'Processing job not found or expired. The document processing may have timed out.';
+
+// Longest pause a single Retry-After can impose on every request for a credential
+const MAX_RATE_LIMIT_PAUSE_MS = 5 * 60 * 1000;
+
+// Statuses with which the API rejects the credential test's request after accepting the key
+const VALIDATION_ERROR_STATUSES = [400, 422];
+
+// Fails CreateBarcode's schema validation: no such barcode type, no content, and a text that is not a string
+const CREDENTIAL_TEST_BODY = { barcodeType: 'n8nCredentialTest', text: 0 };
+
+/**
+ * Resolve the API base URL from pdf4meAiApi credential data, without a trailing slash.
+ */
+export function resolvePdf4meBaseUrl(credentials: IDataObject): string {
+	const region = (credentials.region as string) || 'global';
+
+	let baseUrl = PDF4ME_REGION_URLS[region];
+	if (region === 'custom') {
+		baseUrl = ((credentials.baseUrl as string) || '').trim();
+		if (!/^https?:\/\/[^/]+/i.test(baseUrl)) {
+			throw new Error(`Invalid PDF4ME Base URL in credentials: '${baseUrl}'`);
+		}
+	}
+	if (!baseUrl) {
+		throw new Error(`Unknown PDF4ME region in credentials: '${region}'`);
+	}
+	return baseUrl.replace(/\/+$/, '');
+}
+
+export async function getPdf4meBaseUrl(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+): Promise<string> {
+	const credentials = await this.getCredentials('pdf4meAiApi');
+	try {
+		return resolvePdf4meBaseUrl(credentials);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), error as Error);
+	}
+}
+
+/**
+ * Credential test used instead of a real API call.
+ * Sends a CreateBarcode request that fails schema validation (CREDENTIAL_TEST_BODY): the API
+ * checks the key before validating the body, so 401/403 means a bad key and a 400/422 JSON
+ * validation error means the key was accepted. Any other answer, such as a 404 from a wrong
+ * Base URL or an HTML page from a proxy, fails the test. This assumes a request rejected as
+ * invalid does not run a job and is not billed; PDF4ME does not document an account endpoint
+ * to test against instead, and the credential shows the assumption in a notice.
+ * Plan, remaining credits and expiry are reported when the API returns them.
+ */
+export async function pdf4meAiApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const data = (credential.data ?? {}) as IDataObject;
+	if (!data.apiKey) {
+		return { status: 'Error', message: 'API key is missing' };
+	}
+
+	let baseUrl: string;
+	try {
+		baseUrl = resolvePdf4meBaseUrl(data);
+	} catch (error) {
+		return { status: 'Error', message: (error as Error).message };
+	}
+
+	let response;
+	try {
+		response = await this.helpers.request({
+			uri: `${baseUrl}/api/v2/CreateBarcode`,
+			method: 'POST',
+			headers: {
+				Authorization: `Basic ${data.apiKey}`,
+				'Content-Type': 'application/json',
+			},
+			body: CREDENTIAL_TEST_BODY,
+			json: true,
+			simple: false,
+			resolveWithFullResponse: true,
+		});
+	} catch (error) {
+		return { status: 'Error', message: `Could not reach ${baseUrl}: ${(error as Error).message}` };
+	}
+
+	if (response.statusCode === 401 || response.statusCode === 403) {
+		return { status: 'Error', message: 'The API key was rejected by PDF4ME' };
+	}
+	if (response.statusCode === 429) {
+		return { status: 'Error', message: 'The API key is valid but its rate or usage limit has been reached' };
+	}
+	if (response.statusCode >= 500) {
+		return { status: 'Error', message: `PDF4ME API is unavailable (HTTP ${response.statusCode})` };
+	}
+	if (response.statusCode >= 200 && response.statusCode < 300) {
+		return {
+			status: 'Error',
+			message: `PDF4ME accepted the credential test request (HTTP ${response.statusCode}) instead of rejecting it, so it may have run a job. Please report this to the node maintainers.`,
+		};
+	}
+	const isJsonBody = typeof response.body === 'object' && response.body !== null;
+	if (!VALIDATION_ERROR_STATUSES.includes(response.statusCode) || !isJsonBody) {
+		return {
+			status: 'Error',
+			message: `Unexpected answer from ${baseUrl} (HTTP ${response.statusCode}${isJsonBody ? '' : ', not JSON'}). Check the region or Base URL.`,
+		};
+	}
+
+	const details = getAccountDetails(response.headers as IDataObject, response.body);
+	return {
+		status: 'OK',
+		message: ['Connection successful', ...details].join(' · '),
+	};
+}
+
+// Collect plan, remaining credits, expiry and the rate-limit window from headers or a JSON body, when present
+function getAccountDetails(headers: IDataObject = {}, body: unknown): string[] {
+	const source: IDataObject = {
+		...(typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as IDataObject) : {}),
+	};
+	for (const [name, value] of Object.entries(headers)) {
+		source[name.toLowerCase().replace(/^x-/, '')] = value;
+	}
+
+	const pick = (...keys: string[]) => {
+		const key = keys.find((candidate) => source[candidate] !== undefined && source[candidate] !== '');
+		return key === undefined ? undefined : String(source[key]);
+	};
+
+	const details: string[] = [];
+	const plan = pick('plan', 'planName', 'subscription', 'pdf4me-plan');
+	const credits = pick('remainingCredits', 'creditsRemaining', 'credits', 'pdf4me-remaining-credits');
+	const expiry = pick('expiry', 'expiresAt', 'validUntil', 'pdf4me-expiry');
+	// Requests left in the current rate-limit window, which is not the credit balance
+	const requestsLeft = pick('ratelimit-remaining');
+	if (plan) {
+		details.push(`Plan: ${plan}`);
+	}
+	if (credits) {
+		details.push(`Remaining credits: ${credits}`);
+	}
+	if (expiry) {
+		details.push(`Expires: ${expiry}`);
+	}
+	if (requestsLeft) {
+		details.push(`Requests left in rate-limit window: ${requestsLeft}`);
+	}
+	return details;
+}
+
+/**
+ * Limits for one request sent through the shared limiter.
+ */
+interface IRequestLimits {
+	// Time by which the request must be sent; a longer limiter wait fails with RATE_LIMITED
+	deadline?: number;
+	// Whether a 429 answer's Retry-After pauses the requests for the API key
+	honorRetryAfter?: boolean;
+}
+
+/**
+ * Send a request with the pdf4meAiApi credential through the limiter shared by
+ * every execution that uses the same API key. Unless honorRetryAfter is off, a 429
+ * answer with Retry-After holds back all of those requests until the server accepts
+ * them again.
+ */
+async function pdf4meHttpRequest(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	requestOptions: IHttpRequestOptions,
+	limits: IRequestLimits = {},
+): Promise<IN8nHttpFullResponse> {
+	const credentials = await this.getCredentials('pdf4meAiApi');
+	const key = getRateLimitKey(credentials);
+	const rateLimit = getRateLimit(credentials);
+	const wait = reserveRequest(key, rateLimit);
+	if (limits.deadline !== undefined && Date.now() + wait > limits.deadline) {
+		releaseRequest(key, rateLimit);
+		throw withErrorCode(
+			new NodeOperationError(
+				this.getNode(),
+				`The rate limit for this API key holds requests back for ${Math.ceil(wait / 1000)} seconds, longer than the remaining Max Wait Time`,
+			),
+			Pdf4meErrorCode.RateLimited,
+		);
+	}
+	if (wait > 0) {
+		await localDelay.call(this, wait);
+	}
+
+	const response = (await this.helpers.httpRequestWithAuthentication.call(this, 'pdf4meAiApi', {
+		...requestOptions,
+		returnFullResponse: true,
+	})) as IN8nHttpFullResponse;
+
+	if (response.statusCode === 429 && limits.honorRetryAfter !== false) {
+		const retryAfter = parseRetryAfter(response.headers?.['retry-after']);
+		if (retryAfter !== undefined) {
+			pauseRequests(key, Math.min(retryAfter, MAX_RATE_LIMIT_PAUSE_MS));
+		}
+	}
+	return response;
+}
+
+/**
+ * Wait before retrying a 429 or 5xx answer: the server's Retry-After when it sends
+ * one and honorRetryAfter is on, otherwise the backoff delay for the attempt.
+ * Retry-After is capped like the limiter's pauses, so a server cannot stall an item for hours.
+ */
+function getRetryDelay(
+	response: IN8nHttpFullResponse,
+	asyncOptions: IAsyncRequestOptions,
+	attempt: number,
+): number {
+	const retryAfter = asyncOptions.honorRetryAfter ? parseRetryAfter(response.headers?.['retry-after']) : undefined;
+	return retryAfter === undefined ? getBackoffDelay(asyncOptions, attempt) : Math.min(retryAfter, MAX_RATE_LIMIT_PAUSE_MS);
+}
 
 export async function pdf4meApiRequest(
 	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
@@ -16,15 +334,10 @@ export async function pdf4meApiRequest(
 	method: IHttpRequestMethods = 'POST',
 	qs: IDataObject = {},
 	option: IDataObject = {},
-): Promise<Buffer | IDataObject> {
-	// Determine if this is a JSON response operation (AI processing endpoints)
-	const isJsonResponse = url.includes('/ProcessInvoice') || url.includes('/ProcessHealthCard') ||
-		url.includes('/ProcessContract') || url.includes('/ProcessMortgageDocument') ||
-		url.includes('/ProcessBankCheque') || url.includes('/ProcessCreditCard') ||
-		url.includes('/ProcessPayStub') || url.includes('/ProcessMarriageCertificate');
-
+	responseKind: ResponseKind = 'json',
+): Promise<Buffer | IDataObject | string> {
 	let options: IHttpRequestOptions = {
-		baseURL: 'https://api.pdf4me.com',
+		baseURL: await getPdf4meBaseUrl.call(this),
 		url: url,
 		headers: {
 			'Content-Type': 'application/json',
@@ -32,9 +345,7 @@ export async function pdf4meApiRequest(
 		method,
 		qs,
 		body,
-		json: isJsonResponse, // Parse as JSON for AI processing operations
-		encoding: isJsonResponse ? undefined : 'arraybuffer' as const, // Use default encoding for JSON, arraybuffer for binary
-		returnFullResponse: true, // Need full response to check status
+		returnFullResponse: true, // Need full response to check status and Content-Type
 		ignoreHttpStatusErrors: true, // Don't throw on non-2xx status codes
 	};
 	options = Object.assign({}, options, option);
@@ -43,61 +354,119 @@ export async function pdf4meApiRequest(
 	}
 
 	try {
-		// Debug: Log authentication info (without exposing the full key)
-
-		const response = await this.helpers.httpRequestWithAuthentication.call(this, 'pdf4meAiApi', {
+		const response = await pdf4meHttpRequest.call(this, {
 			url: `${options.baseURL}${options.url}`,
 			method: options.method,
 			headers: options.headers,
 			body: options.body,
 			qs: options.qs,
-			encoding: isJsonResponse ? undefined : 'arraybuffer' as const,
+			// Always read raw bytes; parseResponseBody decodes them as the declared kind
+			encoding: 'arraybuffer' as const,
 			// SSL validation is handled by n8n's httpRequestWithAuthentication
 			returnFullResponse: options.returnFullResponse,
-			json: options.json,
+			json: false,
 		});
 
 		// Check if response is successful
 		if (response.statusCode === 200) {
-			// For JSON responses (AI processing), return the parsed JSON directly
-			if (isJsonResponse) {
-				return response.body; // Already parsed when json: true is set
-			}
-
-			// For binary responses, return binary content
-			if (response.body instanceof Buffer) {
-				return response.body;
-			} else if (typeof response.body === 'string') {
-				// If it's a string, it might be an error message
-				if (response.body.length < 100) {
-					throw new Error(`API returned error message: ${response.body}`);
-				}
-				// Try to convert from base64 if it's a long string
-				try {
-					return Buffer.from(response.body, 'base64');
-				} catch (error) {
-					throw new Error(`API returned unexpected string response: ${response.body.substring(0, 100)}...`);
-				}
-			} else {
-				return Buffer.from(response.body, 'binary');
-			}
-		} else {
-			// Error response - try to parse as JSON for error details
-			let errorMessage = `HTTP ${response.statusCode}`;
-			try {
-				const errorJson = JSON.parse(response.body);
-				errorMessage = errorJson.message || errorJson.error || errorJson.detail || errorMessage;
-			} catch {
-				errorMessage = `${errorMessage}: ${response.body}`;
-			}
-			throw new Error(errorMessage);
+			return parseResponseBody(response.body, response.headers, responseKind);
 		}
+
+		// Error response - try to parse as JSON for error details
+		throw createStatusError(this.getNode(), getErrorMessage(response.body, `HTTP ${response.statusCode}`), response.statusCode);
 	} catch (error) {
-		throw new NodeApiError(this.getNode(), error as JsonObject);
+		throw toApiError.call(this, error);
+	}
+}
+
+// Read a response body as bytes, whatever shape the HTTP helper returned it in
+function toBuffer(body: unknown): Buffer {
+	if (Buffer.isBuffer(body)) {
+		return body;
+	} else if (body instanceof ArrayBuffer) {
+		return Buffer.from(body);
+	} else if (typeof body === 'string') {
+		return Buffer.from(body, 'utf8');
+	} else if (body === undefined || body === null) {
+		return Buffer.alloc(0);
+	}
+	return Buffer.from(JSON.stringify(body), 'utf8');
+}
+
+function previewBody(raw: Buffer): string {
+	const text = raw.toString('utf8', 0, 200).trim();
+	return raw.length > 200 ? `${text}...` : text;
+}
+
+function getContentType(headers: IDataObject | undefined): string {
+	const value = headers?.['content-type'];
+	return typeof value === 'string' ? value.split(';')[0].trim().toLowerCase() : '';
+}
+
+function isJsonContentType(contentType: string): boolean {
+	return contentType === 'application/json' || contentType === 'text/json' || contentType.endsWith('+json');
+}
+
+/**
+ * Decode a successful response body as the declared kind. A Content-Type that
+ * contradicts the kind (e.g. an HTML error page where JSON was expected) is
+ * reported instead of being decoded; a missing Content-Type is not checked.
+ */
+export function parseResponseBody(
+	body: unknown,
+	headers: IDataObject | undefined,
+	responseKind: ResponseKind,
+): Buffer | IDataObject | string {
+	const contentType = getContentType(headers);
+	const raw = toBuffer(body);
+
+	if (responseKind === 'json') {
+		if (contentType && !isJsonContentType(contentType)) {
+			throw new Error(`Expected a JSON response but the API returned '${contentType}': ${previewBody(raw)}`);
+		}
+		if (raw.length === 0) {
+			throw new Error('Expected a JSON response but the API returned an empty body');
+		}
+		try {
+			return JSON.parse(raw.toString('utf8')) as IDataObject;
+		} catch {
+			throw new Error(`API returned invalid JSON: ${previewBody(raw)}`);
+		}
+	}
+
+	if (responseKind === 'text') {
+		if (contentType && !contentType.startsWith('text/') && !isJsonContentType(contentType)) {
+			throw new Error(`Expected a text response but the API returned '${contentType}'`);
+		}
+		return raw.toString('utf8');
+	}
+
+	if (contentType && (contentType.startsWith('text/') || isJsonContentType(contentType))) {
+		throw new Error(`Expected a binary response but the API returned '${contentType}': ${previewBody(raw)}`);
+	}
+	if (raw.length === 0) {
+		throw new Error('Expected a binary response but the API returned an empty body');
 	}
+	return raw;
 }
 
-// Removed n8nSleep and all artificial delay logic to comply with n8n community guidelines.
+// Pick the message out of a JSON error body, falling back to the raw text
+function getErrorMessage(body: unknown, fallback: string): string {
+	const raw = toBuffer(body);
+	if (raw.length === 0) {
+		return fallback;
+	}
+	try {
+		const errorJson = JSON.parse(raw.toString('utf8'));
+		const message = errorJson.message || errorJson.error || errorJson.detail;
+		if (message) {
+			return typeof message === 'string' ? message : JSON.stringify(message);
+		}
+	} catch {
+		// Not JSON, use the raw text below
+	}
+	return `${fallback}: ${previewBody(raw)}`;
+}
 
 // Delay function using PDF4ME's DelayAsync endpoint
 async function delayAsync(
@@ -106,8 +475,8 @@ async function delayAsync(
 	// const startTime = Date.now();
 	// console.log('PDF4ME: Calling DelayAsync endpoint for 10-second delay');
 
-	await this.helpers.httpRequestWithAuthentication.call(this, 'pdf4meAiApi', {
-		url: 'https://api.pdf4me.com/api/v2/AddDelay',
+	await pdf4meHttpRequest.call(this, {
+		url: `${await getPdf4meBaseUrl.call(this)}/api/v2/AddDelay`,
 		method: 'GET',
 		returnFullResponse: true,
 		ignoreHttpStatusErrors: true,
@@ -118,6 +487,252 @@ async function delayAsync(
 	// console.log(`PDF4ME: DelayAsync endpoint completed after ${actualDelay}ms (expected: 10000ms)`);
 }
 
+// Wait for roughly `ms` milliseconds, rounded up to whole DelayAsync steps
+async function remoteDelay(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	ms: number,
+): Promise<void> {
+	const steps = Math.max(1, Math.ceil(ms / REMOTE_DELAY_STEP_MS));
+	for (let step = 0; step < steps; step++) {
+		await delayAsync.call(this);
+	}
+}
+
+// Wait `ms` milliseconds locally, rejecting early if the execution is cancelled
+async function localDelay(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	ms: number,
+): Promise<void> {
+	const signal = 'getExecutionCancelSignal' in this ? this.getExecutionCancelSignal() : undefined;
+	if (signal?.aborted) {
+		throw new NodeOperationError(this.getNode(), 'Execution was cancelled while waiting for the PDF4ME job');
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new NodeOperationError(this.getNode(), 'Execution was cancelled while waiting for the PDF4ME job'));
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+const waitStrategies: Record<WaitStrategy, WaitFunction> = {
+	local: localDelay,
+	remote: remoteDelay,
+};
+
+async function waitFor(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	ms: number,
+	asyncOptions: IAsyncRequestOptions,
+): Promise<void> {
+	const wait = waitStrategies[asyncOptions.waitStrategy] ?? localDelay;
+	await wait.call(this, ms);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ * Returns undefined when the header is missing or malformed.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+	const text = String(value).trim();
+	if (/^\d+(\.\d+)?$/.test(text)) {
+		return Math.round(parseFloat(text) * 1000);
+	}
+	const date = Date.parse(text);
+	if (isNaN(date)) {
+		return undefined;
+	}
+	return Math.max(0, date - Date.now());
+}
+
+/**
+ * Read the node's "Job Mode" and "Async Job Options" parameters for an item and fill in defaults.
+ */
+export function getAsyncRequestOptions(this: IExecuteFunctions, index: number): IAsyncRequestOptions {
+	const asyncOptions = this.getNodeParameter('asyncOptions', index, {}) as Partial<IAsyncRequestOptions>;
+	const jobMode = this.getNodeParameter('jobMode', index, 'wait') as string;
+	const options: IAsyncRequestOptions = {
+		...DEFAULT_ASYNC_OPTIONS,
+		...asyncOptions,
+		waitForCompletion: jobMode === 'wait',
+	};
+
+	if (jobMode === 'callback') {
+		const callbackUrl = (this.getNodeParameter('callbackUrl', index, '') as string).trim();
+		let protocol = '';
+		try {
+			protocol = new URL(callbackUrl).protocol;
+		} catch {
+			// handled below
+		}
+		if (protocol !== 'https:' && protocol !== 'http:') {
+			throw new NodeOperationError(this.getNode(), `Callback URL must be an absolute http(s) URL, got: '${callbackUrl}'`, { itemIndex: index });
+		}
+		options.callbackUrl = callbackUrl;
+	}
+
+	if (options.maxWaitTime <= 0) {
+		throw new NodeOperationError(this.getNode(), 'Max Wait Time must be greater than 0 seconds', { itemIndex: index });
+	}
+	if (options.pollInterval <= 0) {
+		throw new NodeOperationError(this.getNode(), 'Poll Interval must be greater than 0 seconds', { itemIndex: index });
+	}
+	if (options.maxPollInterval < options.pollInterval) {
+		options.maxPollInterval = options.pollInterval;
+	}
+	return options;
+}
+
+/**
+ * Compute the wait before the next poll or retry, in milliseconds.
+ * With exponential backoff the interval doubles per attempt up to maxPollInterval;
+ * jitter then picks a random value between half and the full interval.
+ */
+export function getBackoffDelay(asyncOptions: IAsyncRequestOptions, attempt: number): number {
+	let seconds = asyncOptions.pollInterval;
+	if (asyncOptions.exponentialBackoff) {
+		seconds = Math.min(asyncOptions.pollInterval * Math.pow(2, attempt), asyncOptions.maxPollInterval);
+	}
+	let ms = seconds * 1000;
+	if (asyncOptions.jitter) {
+		ms = ms / 2 + Math.random() * (ms / 2);
+	}
+	return Math.round(ms);
+}
+
+/**
+ * Extract a job ID from a job Location URL: a jobId/id query parameter if present,
+ * otherwise the last path segment.
+ */
+export function getJobIdFromLocation(locationUrl: string): string {
+	try {
+		const parsed = new URL(locationUrl);
+		const fromQuery = parsed.searchParams.get('jobId') || parsed.searchParams.get('id');
+		if (fromQuery) {
+			return fromQuery;
+		}
+		const segments = parsed.pathname.split('/').filter((segment) => segment !== '');
+		return segments.length > 0 ? segments[segments.length - 1] : locationUrl;
+	} catch {
+		return locationUrl;
+	}
+}
+
+function createJobHandle(locationUrl: string, callbackUrl?: string): IPdf4meJob {
+	const handle: IPdf4meJob = {
+		jobId: getJobIdFromLocation(locationUrl),
+		locationUrl,
+		status: 'running',
+		...(callbackUrl && { callbackUrl }),
+	};
+	jobHandles.add(handle);
+	return handle;
+}
+
+export function isJobHandle(result: unknown): result is IPdf4meJob {
+	return typeof result === 'object' && result !== null && jobHandles.has(result);
+}
+
+/**
+ * Build the output item for a job that was started but not awaited.
+ * The Location URL can be passed to the "Get Job Result" operation later.
+ */
+export function buildJobStartedItem(
+	job: IPdf4meJob,
+	operation: string,
+	docName: string,
+	index: number,
+): INodeExecutionData[] {
+	return [
+		{
+			json: {
+				...job,
+				_metadata: {
+					success: true,
+					message: job.callbackUrl
+						? 'Job started. The result will be posted to the callback URL when it finishes.'
+						: 'Job started. Use the Get Job Result operation with the Location URL to fetch the result.',
+					processingTimestamp: new Date().toISOString(),
+					sourceFileName: docName,
+					operation,
+				},
+			},
+			pairedItem: { item: index },
+		},
+	];
+}
+
+/**
+ * Check the shape of a job result posted to a callback URL and normalize it.
+ * Accepts either an envelope ({ jobId, status, result | data, error | message })
+ * or the bare extraction result, which is treated as a completed job. A bare body
+ * with an error or message field, or a whole Wait node item, is rejected rather
+ * than passed on as extracted data.
+ */
+export function verifyCallbackPayload(payload: unknown): ICallbackPayload {
+	let body = payload;
+	if (typeof body === 'string') {
+		try {
+			body = JSON.parse(body);
+		} catch {
+			throw new Error('Callback payload is not valid JSON');
+		}
+	}
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		throw new Error('Callback payload must be a JSON object');
+	}
+
+	const data = body as IDataObject;
+	if (Object.keys(data).length === 0) {
+		throw new Error('Callback payload is empty');
+	}
+	if (data.jobId !== undefined && typeof data.jobId !== 'string') {
+		throw new Error('Callback payload field "jobId" must be a string');
+	}
+	const jobId = data.jobId as string | undefined;
+
+	if (data.status === undefined) {
+		if (data.error !== undefined || data.message !== undefined) {
+			throw new Error('Callback payload without a "status" must not contain "error" or "message"');
+		}
+		if (['headers', 'params', 'query', 'body'].every((key) => key in data)) {
+			throw new Error('Callback payload is a whole Wait node item; pass its "body" instead');
+		}
+		return { jobId, status: 'completed', result: data };
+	}
+	if (typeof data.status !== 'string') {
+		throw new Error('Callback payload field "status" must be a string');
+	}
+
+	const status = data.status.toLowerCase();
+	if (CALLBACK_FAILURE_STATUSES.includes(status)) {
+		const error = data.error ?? data.message;
+		return {
+			jobId,
+			status: 'failed',
+			error: typeof error === 'string' ? error : `Job ${status}`,
+		};
+	}
+	if (!CALLBACK_SUCCESS_STATUSES.includes(status)) {
+		throw new Error(`Callback payload has unknown status "${data.status}"`);
+	}
+
+	const result = data.result ?? data.data;
+	if (typeof result !== 'object' || result === null || Array.isArray(result)) {
+		throw new Error('Callback payload for a completed job must contain a "result" or "data" object');
+	}
+	return { jobId, status: 'completed', result: result as IDataObject };
+}
+
 export async function pdf4meAsyncRequest(
 	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
 	url: string,
@@ -125,18 +740,14 @@ export async function pdf4meAsyncRequest(
 	method: IHttpRequestMethods = 'POST',
 	qs: IDataObject = {},
 	option: IDataObject = {},
-): Promise<Buffer | IDataObject> {
-	// Use the body as-is without modifying it
-	const asyncBody = body;
-
-	// Determine if this is a JSON response operation (AI processing endpoints)
-	const isJsonResponse = url.includes('/ProcessInvoice') || url.includes('/ProcessHealthCard') ||
-		url.includes('/ProcessContract') || url.includes('/ProcessMortgageDocument') ||
-		url.includes('/ProcessBankCheque') || url.includes('/ProcessCreditCard') ||
-		url.includes('/ProcessPayStub') || url.includes('/ProcessMarriageCertificate');
+	asyncOptions: IAsyncRequestOptions = DEFAULT_ASYNC_OPTIONS,
+	responseKind: ResponseKind = 'json',
+): Promise<Buffer | IDataObject | string> {
+	// Use the body as-is, only adding the callback URL when one is configured
+	const asyncBody = asyncOptions.callbackUrl ? { ...body, callbackUrl: asyncOptions.callbackUrl } : body;
 
 	let options: IHttpRequestOptions = {
-		baseURL: 'https://api.pdf4me.com',
+		baseURL: await getPdf4meBaseUrl.call(this),
 		url: url,
 		headers: {
 			'Content-Type': 'application/json',
@@ -144,79 +755,91 @@ export async function pdf4meAsyncRequest(
 		method,
 		qs,
 		body: asyncBody,
-		json: isJsonResponse, // Parse as JSON for CreateImages operations
 		returnFullResponse: true, // Need full response to get headers
 		ignoreHttpStatusErrors: true, // Don't throw on non-2xx status codes
-		encoding: 'arraybuffer' as const, // For potential binary response
 		timeout: 1000023,
 	};
 	options = Object.assign({}, options, option);
 
+	// Retries of the initial request and polling share the Max Wait Time
+	const deadline = Date.now() + asyncOptions.maxWaitTime * 1000;
+	let attempts = 0;
 	try {
-		// Make initial request
-		const response = await this.helpers.httpRequestWithAuthentication.call(this, 'pdf4meAiApi', {
-			url: `${options.baseURL}${options.url}`,
-			method: options.method,
-			headers: options.headers,
-			body: options.body,
-			qs: options.qs,
-			encoding: isJsonResponse ? undefined : 'arraybuffer' as const,
-			// SSL validation is handled by n8n's httpRequestWithAuthentication
-			returnFullResponse: options.returnFullResponse,
-			json: options.json,
-			timeout: options.timeout,
-		});
+		// Make initial request, retrying on 429 and 5xx up to maxRetries times
+		let response;
+		for (let attempt = 0; ; attempt++) {
+			attempts++;
+			response = await pdf4meHttpRequest.call(this, {
+				url: `${options.baseURL}${options.url}`,
+				method: options.method,
+				headers: options.headers,
+				body: options.body,
+				qs: options.qs,
+				// Always read raw bytes; parseResponseBody decodes them as the declared kind
+				encoding: 'arraybuffer' as const,
+				// SSL validation is handled by n8n's httpRequestWithAuthentication
+				returnFullResponse: options.returnFullResponse,
+				json: false,
+				timeout: options.timeout,
+			}, { deadline, honorRetryAfter: asyncOptions.honorRetryAfter });
+
+			const remaining = deadline - Date.now();
+			if (!isRetryableStatus(response.statusCode) || attempt >= asyncOptions.maxRetries || remaining <= 0) {
+				break;
+			}
+			await waitFor.call(this, Math.min(getRetryDelay(response, asyncOptions, attempt), remaining), asyncOptions);
+			// Waiting may have used up the budget; report the last answer instead of sending again
+			if (Date.now() >= deadline) {
+				break;
+			}
+		}
 
 		if (response.statusCode === 200) {
 			// Immediate success
-			if (isJsonResponse) {
-				return response.body; // Already parsed when json: true is set
-			} else {
-				// Handle binary response
-				if (response.body instanceof Buffer) {
-					return response.body;
-				} else if (typeof response.body === 'string') {
-					if (response.body.length < 100) {
-						throw new Error(`API returned error message: ${response.body}`);
-					}
-					try {
-						return Buffer.from(response.body, 'base64');
-					} catch {
-						throw new Error(`API returned unexpected string response: ${response.body.substring(0, 100)}...`);
-					}
-				} else {
-					return Buffer.from(response.body, 'binary');
-				}
-			}
+			return parseResponseBody(response.body, response.headers, responseKind);
 		} else if (response.statusCode === 202) {
 			// Async processing - always start polling when API returns 202
-			const locationUrl = response.headers.headers?.location || response.headers.location;
+			const headers = response.headers as IDataObject;
+			const locationUrl = ((headers.headers as IDataObject | undefined)?.location || headers.location) as string | undefined;
 			if (!locationUrl) {
 				throw new Error('No polling URL found in response');
 			}
 
-			// Start polling immediately when API returns 202
-			// Poll the location URL until completion
-			return await pollForCompletion.call(this, locationUrl, isJsonResponse);
-		} else {
-			let errorMessage = `API Error: ${response.statusCode}`;
-			try {
-				if (typeof response.body === 'string') {
-					const errorJson = JSON.parse(response.body);
-					errorMessage = errorJson.message || errorJson.error || errorJson.detail || errorMessage;
-				} else {
-					errorMessage = `${errorMessage}: ${response.body}`;
-				}
-			} catch {
-				errorMessage = `${errorMessage}: ${response.body}`;
+			// Hand the job back to the caller in "Start Job" and callback modes
+			if (!asyncOptions.waitForCompletion) {
+				return createJobHandle(locationUrl, asyncOptions.callbackUrl);
 			}
-			throw new Error(errorMessage);
+
+			// Otherwise poll the location URL until completion
+			return await pollForCompletion.call(this, locationUrl, responseKind, asyncOptions, deadline);
+		} else {
+			// Keep the status on the error so callers can react to specific rejections
+			const message = getErrorMessage(response.body, `API Error: ${response.statusCode}`);
+			throw createStatusError(this.getNode(), message, response.statusCode);
 		}
 	} catch (error) {
-		throw new NodeApiError(this.getNode(), error as JsonObject);
+		// Failures while polling already carry the number of polls
+		throw withErrorContext(toApiError.call(this, error), { attempts });
 	}
 }
 
+/**
+ * Keep errors that already carry a code, and wrap anything else thrown while talking
+ * to the API (network failures, unreadable responses) in a coded NodeApiError.
+ */
+function toApiError(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	error: unknown,
+): NodeApiError | NodeOperationError {
+	if (error instanceof NodeApiError || error instanceof NodeOperationError) {
+		return error;
+	}
+	return withErrorCode(
+		new NodeApiError(this.getNode(), error as JsonObject),
+		isNetworkError(error) ? Pdf4meErrorCode.NetworkError : Pdf4meErrorCode.ApiError,
+	);
+}
+
 export function sanitizeProfiles(data: IDataObject): void {
 	// Convert profiles to a trimmed string (or empty string if not provided)
 	const profilesValue = data.profiles ? String(data.profiles).trim() : '';
@@ -247,9 +870,11 @@ export function sanitizeProfiles(data: IDataObject): void {
 
 /**
  * ActionConstants provides a mapping of all supported PDF4ME AI node operations to their string values.
- * Includes AI features: Invoice Parser, Process Contract, Process HealthCard, Process Mortgage Document, Process Bank Cheque, Process Credit Card, Process Pay Stub, and Process Marriage Certificate.
+ * Includes AI features: Invoice Parser, Process Contract, Process HealthCard, Process Mortgage Document, Process Bank Cheque, Process Credit Card, Process Pay Stub, and Process Marriage Certificate,
+ * plus Get Job Result for jobs started in "Start Job" mode.
  */
 export const ActionConstants = {
+	AiClassifyDocument: 'AI-Classify Document',
 	AiInvoiceParser: 'AI-Invoice Parser',
 	AiProcessContract: 'AI-Process Contract',
 	AiProcessHealthCard: 'AI-Process HealthCard',
@@ -258,82 +883,160 @@ export const ActionConstants = {
 	AiProcessCreditCard: 'AI-Process Credit Card',
 	AiProcessPayStub: 'AI-Process Pay Stub',
 	AiProcessMarriageCertificate: 'AI-Process Marriage Certificate',
+	GetJobResult: 'Get Job Result',
 };
 
+/**
+ * Fetch the result of a job started earlier. With waitForCompletion the job is polled
+ * until it finishes; otherwise it is polled once and a running job handle is returned
+ * if it has not finished yet. AI endpoints always answer with JSON.
+ */
+export async function pdf4meGetJobResult(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	locationUrl: string,
+	asyncOptions: IAsyncRequestOptions = DEFAULT_ASYNC_OPTIONS,
+): Promise<IDataObject> {
+	let attempts = 0;
+	try {
+		if (asyncOptions.waitForCompletion) {
+			return (await pollForCompletion.call(this, locationUrl, 'json', asyncOptions)) as IDataObject;
+		}
+
+		// Retry a rate-limited poll up to maxRetries times
+		let pollResponse;
+		for (let attempt = 0; ; attempt++) {
+			attempts++;
+			pollResponse = await pdf4meHttpRequest.call(this, {
+				url: locationUrl,
+				method: 'GET',
+				encoding: 'arraybuffer' as const,
+				returnFullResponse: true,
+				json: false,
+				ignoreHttpStatusErrors: true,
+			}, { honorRetryAfter: asyncOptions.honorRetryAfter });
+			if (pollResponse.statusCode !== 429 || attempt >= asyncOptions.maxRetries) {
+				break;
+			}
+			await waitFor.call(this, getRetryDelay(pollResponse, asyncOptions, attempt), asyncOptions);
+		}
+
+		if (pollResponse.statusCode === 200) {
+			return parseResponseBody(pollResponse.body, pollResponse.headers, 'json') as IDataObject;
+		} else if (pollResponse.statusCode === 202) {
+			return createJobHandle(locationUrl);
+		} else if (pollResponse.statusCode === 404) {
+			throw createStatusError(this.getNode(), JOB_EXPIRED_MESSAGE, 404, Pdf4meErrorCode.JobExpired);
+		}
+		throw createStatusError(
+			this.getNode(),
+			getErrorMessage(pollResponse.body, `Polling failed with status ${pollResponse.statusCode}`),
+			pollResponse.statusCode,
+		);
+	} catch (error) {
+		throw withErrorContext(toApiError.call(this, error), {
+			jobId: getJobIdFromLocation(locationUrl),
+			locationUrl,
+			attempts,
+		});
+	}
+}
+
+/**
+ * Poll a job until it finishes. A failure records the job and the number of polls
+ * made, so a failed item can report which job to resume.
+ */
 async function pollForCompletion(
 	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
 	locationUrl: string,
-	isJsonResponse: boolean,
-	maxRetries: number = 9000,
-): Promise<Buffer | IDataObject> {
-	let retryCount = 0;
+	responseKind: ResponseKind,
+	asyncOptions: IAsyncRequestOptions,
+	deadline = Date.now() + asyncOptions.maxWaitTime * 1000,
+): Promise<Buffer | IDataObject | string> {
+	const progress = { polls: 0 };
+	try {
+		return await pollUntilFinished.call(this, locationUrl, responseKind, asyncOptions, deadline, progress);
+	} catch (error) {
+		throw withErrorContext(toApiError.call(this, error), {
+			jobId: getJobIdFromLocation(locationUrl),
+			locationUrl,
+			attempts: progress.polls,
+		});
+	}
+}
 
-	while (retryCount < maxRetries) {
+async function pollUntilFinished(
+	this: IHookFunctions | IExecuteFunctions | ILoadOptionsFunctions,
+	locationUrl: string,
+	responseKind: ResponseKind,
+	asyncOptions: IAsyncRequestOptions,
+	deadline: number,
+	progress: { polls: number },
+): Promise<Buffer | IDataObject | string> {
+	let attempt = 0;
+	// Consecutive 429 answers, retried up to maxRetries times
+	let rateLimited = 0;
+
+	while (Date.now() < deadline) {
 		try {
 			// Make polling request
-			const pollResponse = await this.helpers.httpRequestWithAuthentication.call(this, 'pdf4meAiApi', {
+			progress.polls++;
+			const pollResponse = await pdf4meHttpRequest.call(this, {
 				url: locationUrl,
 				method: 'GET',
-				encoding: isJsonResponse ? undefined : 'arraybuffer' as const,
+				encoding: 'arraybuffer' as const,
 				returnFullResponse: true,
-				json: isJsonResponse,
+				json: false,
 				ignoreHttpStatusErrors: true,
-			});
+			}, { deadline, honorRetryAfter: asyncOptions.honorRetryAfter });
 
 			if (pollResponse.statusCode === 200) {
 				// Success - return the final result
-				if (isJsonResponse) {
-					return pollResponse.body; // Already parsed when json: true is set
-				} else {
-					// Handle binary response
-					if (pollResponse.body instanceof Buffer) {
-						return pollResponse.body;
-					} else if (typeof pollResponse.body === 'string') {
-						if (pollResponse.body.length < 100) {
-							throw new Error(`API returned error message: ${pollResponse.body}`);
-						}
-						try {
-							return Buffer.from(pollResponse.body, 'base64');
-						} catch {
-							throw new Error(`API returned unexpected string response: ${pollResponse.body.substring(0, 100)}...`);
-						}
-					} else {
-						return Buffer.from(pollResponse.body, 'binary');
-					}
-				}
+				return parseResponseBody(pollResponse.body, pollResponse.headers, responseKind);
 			} else if (pollResponse.statusCode === 202) {
-				// Still processing, continue polling with 10 second backoff
-				retryCount++;
-				// Use PDF4ME's DelayAsync endpoint for 10 second delay
-				await delayAsync.call(this);
+				// Still processing, wait for the next poll within the remaining budget
+				const remaining = deadline - Date.now();
+				if (remaining <= 0) {
+					break;
+				}
+				const retryAfter = asyncOptions.honorRetryAfter
+					? parseRetryAfter(pollResponse.headers?.['retry-after'])
+					: undefined;
+				const delay = retryAfter ?? getBackoffDelay(asyncOptions, attempt);
+				attempt++;
+				await waitFor.call(this, Math.min(delay, remaining), asyncOptions);
+				rateLimited = 0;
+				continue;
+			} else if (pollResponse.statusCode === 429 && rateLimited < asyncOptions.maxRetries) {
+				// Rate limited, the job keeps running on the server while we back off
+				const remaining = deadline - Date.now();
+				if (remaining <= 0) {
+					break;
+				}
+				await waitFor.call(this, Math.min(getRetryDelay(pollResponse, asyncOptions, rateLimited), remaining), asyncOptions);
+				rateLimited++;
 				continue;
 			} else if (pollResponse.statusCode === 404) {
 				// Job not found or expired
-				throw new Error('Processing job not found or expired. The document processing may have timed out.');
+				throw createStatusError(this.getNode(), JOB_EXPIRED_MESSAGE, 404, Pdf4meErrorCode.JobExpired);
 			} else {
 				// Other error
-				let errorMessage = `Polling failed with status ${pollResponse.statusCode}`;
-				try {
-					if (typeof pollResponse.body === 'string') {
-						const errorJson = JSON.parse(pollResponse.body);
-						errorMessage = errorJson.message || errorJson.error || errorJson.detail || errorMessage;
-					} else {
-						errorMessage = `${errorMessage}: ${pollResponse.body}`;
-					}
-				} catch {
-					errorMessage = `${errorMessage}: ${pollResponse.body}`;
-				}
-				throw new Error(errorMessage);
+				throw createStatusError(
+					this.getNode(),
+					getErrorMessage(pollResponse.body, `Polling failed with status ${pollResponse.statusCode}`),
+					pollResponse.statusCode,
+				);
 			}
 		} catch (error) {
 			// If it's a network error, retry with minimal backoff
-			if (error.message.includes('ENOTFOUND') || error.message.includes('ECONNRESET') || error.message.includes('timeout')) {
-				retryCount++;
-				if (retryCount >= maxRetries) {
-					throw new Error(`Network error during polling after ${maxRetries} attempts: ${error.message}`);
+			if (!(error instanceof NodeApiError || error instanceof NodeOperationError) && isNetworkError(error)) {
+				const remaining = deadline - Date.now();
+				if (remaining <= 0) {
+					throw withErrorCode(
+						new NodeOperationError(this.getNode(), `Network error during polling after ${attempt + 1} attempts: ${error.message}. Job Location URL: ${locationUrl}`),
+						Pdf4meErrorCode.NetworkError,
+					);
 				}
-				// Use PDF4ME's DelayAsync endpoint for 10 second delay on network errors
-				await delayAsync.call(this);
+				await waitFor.call(this, Math.min(getBackoffDelay(asyncOptions, attempt++), remaining), asyncOptions);
 				continue;
 			}
 			// For other errors, throw immediately
@@ -341,5 +1044,8 @@ async function pollForCompletion(
 		}
 	}
 
-	throw new Error(`Document processing timed out after ${maxRetries} polling attempts. The operation may still be processing on the server.`);
+	throw withErrorCode(
+		new NodeOperationError(this.getNode(), `Document processing did not finish within ${asyncOptions.maxWaitTime} seconds (${attempt} polling attempts). The job may still be processing on the server; resume it later by polling the job Location URL: ${locationUrl}`),
+		Pdf4meErrorCode.JobTimeout,
+	);
 }
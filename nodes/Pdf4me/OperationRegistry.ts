@@ -0,0 +1,206 @@
+import type {
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeProperties,
+	INodePropertyOptions,
+} from 'n8n-workflow';
+import * as aiClassifyDocument from './actions/aiClassifyDocument';
+import * as aiInvoiceParser from './actions/aiInvoiceParser';
+import * as aiProcessHealthCard from './actions/aiProcessHealthCard';
+import * as aiProcessContract from './actions/aiProcessContract';
+import * as aiProcessMortgageDocument from './actions/aiProcessMortgageDocument';
+import * as aiProcessBankCheque from './actions/aiProcessBankCheque';
+import * as aiProcessCreditCard from './actions/aiProcessCreditCard';
+import * as aiProcessPayStub from './actions/aiProcessPayStub';
+import * as aiProcessMarriageCertificate from './actions/aiProcessMarriageCertificate';
+import * as getJobResult from './actions/getJobResult';
+import type { DocumentProcessor } from './DocumentInput';
+import { ActionConstants } from './GenericFunctions';
+
+/**
+ * How AI-Classify Document and the "By Document Type" output routing refer to
+ * an extractor.
+ */
+export interface IDocumentTypeDefinition {
+	// Type reported by AI-Classify Document
+	type: string;
+	// Classifier labels are matched against these after lower-casing and removing everything but letters
+	keywords: string[];
+	// Output of the "By Document Type" routing
+	outputName: string;
+	// `_metadata.operation` of the extractor's results
+	resultOperation: string;
+	processDocument: DocumentProcessor;
+}
+
+/**
+ * One operation of the PDF4ME AI node: its option in the Operation dropdown,
+ * its parameters and its executor.
+ */
+export interface IOperationDefinition {
+	value: string;
+	name: string;
+	description: string;
+	properties: INodeProperties[];
+	execute: (this: IExecuteFunctions, index: number) => Promise<INodeExecutionData[]>;
+	// Set for the extractors that documents can be classified and routed to
+	documentType?: IDocumentTypeDefinition;
+}
+
+/**
+ * OPERATIONS is the single list of supported operations. The operation options,
+ * the node properties, the dispatch in Pdf4meAi.execute, the document types of
+ * AI-Classify Document and the outputs of "By Document Type" routing are all
+ * generated from it, in this order.
+ */
+export const OPERATIONS: IOperationDefinition[] = [
+	{
+		value: ActionConstants.AiInvoiceParser,
+		name: 'AI-Invoice Parser',
+		description: 'Extract structured data from invoices using AI/ML technology for automated data entry',
+		properties: aiInvoiceParser.description,
+		execute: aiInvoiceParser.execute,
+		documentType: {
+			type: 'invoice',
+			keywords: ['invoice', 'bill', 'receipt'],
+			outputName: 'Invoice',
+			resultOperation: 'aiInvoiceParser',
+			processDocument: aiInvoiceParser.processDocument,
+		},
+	},
+	{
+		value: ActionConstants.AiProcessContract,
+		name: 'AI-Process Contract',
+		description: 'Extract structured data from contracts using AI/ML technology for legal document analysis',
+		properties: aiProcessContract.description,
+		execute: aiProcessContract.execute,
+		documentType: {
+			type: 'contract',
+			keywords: ['contract', 'agreement'],
+			outputName: 'Contract',
+			resultOperation: 'aiProcessContract',
+			processDocument: aiProcessContract.processDocument,
+		},
+	},
+	{
+		value: ActionConstants.AiProcessHealthCard,
+		name: 'AI-Process HealthCard',
+		description: 'Extract structured data from health cards using AI/ML technology for member management',
+		properties: aiProcessHealthCard.description,
+		execute: aiProcessHealthCard.execute,
+		documentType: {
+			type: 'healthCard',
+			keywords: ['healthcard', 'healthinsurance', 'insurancecard'],
+			outputName: 'Health Card',
+			resultOperation: 'aiProcessHealthCard',
+			processDocument: aiProcessHealthCard.processDocument,
+		},
+	},
+	{
+		value: ActionConstants.AiProcessMortgageDocument,
+		name: 'AI-Process Mortgage Document',
+		description: 'Extract structured data from mortgage documents using AI/ML technology for loan processing',
+		properties: aiProcessMortgageDocument.description,
+		execute: aiProcessMortgageDocument.execute,
+		documentType: {
+			type: 'mortgageDocument',
+			keywords: ['mortgage', 'loan'],
+			outputName: 'Mortgage Document',
+			resultOperation: 'aiProcessMortgageDocument',
+			processDocument: aiProcessMortgageDocument.processDocument,
+		},
+	},
+	{
+		value: ActionConstants.AiProcessBankCheque,
+		name: 'AI-Process Bank Cheque',
+		description: 'Extract structured data from bank cheques using AI/ML technology for payment processing',
+		properties: aiProcessBankCheque.description,
+		execute: aiProcessBankCheque.execute,
+		documentType: {
+			type: 'bankCheque',
+			keywords: ['cheque', 'check'],
+			outputName: 'Bank Cheque',
+			resultOperation: 'aiProcessBankCheque',
+			processDocument: aiProcessBankCheque.processDocument,
+		},
+	},
+	{
+		value: ActionConstants.AiProcessCreditCard,
+		name: 'AI-Process Credit Card',
+		description: 'Extract structured data from credit cards using AI/ML technology for payment processing',
+		properties: aiProcessCreditCard.description,
+		execute: aiProcessCreditCard.execute,
+		documentType: {
+			type: 'creditCard',
+			keywords: ['creditcard', 'debitcard', 'paymentcard'],
+			outputName: 'Credit Card',
+			resultOperation: 'aiProcessCreditCard',
+			processDocument: aiProcessCreditCard.processDocument,
+		},
+	},
+	{
+		value: ActionConstants.AiProcessPayStub,
+		name: 'AI-Process Pay Stub',
+		description: 'Extract structured data from pay stubs using AI/ML technology for payroll processing',
+		properties: aiProcessPayStub.description,
+		execute: aiProcessPayStub.execute,
+		documentType: {
+			type: 'payStub',
+			keywords: ['paystub', 'payslip', 'paycheck', 'payroll', 'salary'],
+			outputName: 'Pay Stub',
+			resultOperation: 'aiProcessPayStub',
+			processDocument: aiProcessPayStub.processDocument,
+		},
+	},
+	{
+		value: ActionConstants.AiProcessMarriageCertificate,
+		name: 'AI-Process Marriage Certificate',
+		description: 'Extract structured data from marriage certificates using AI/ML technology for document verification',
+		properties: aiProcessMarriageCertificate.description,
+		execute: aiProcessMarriageCertificate.execute,
+		documentType: {
+			type: 'marriageCertificate',
+			keywords: ['marriage'],
+			outputName: 'Marriage Certificate',
+			resultOperation: 'aiProcessMarriageCertificate',
+			processDocument: aiProcessMarriageCertificate.processDocument,
+		},
+	},
+	{
+		value: ActionConstants.AiClassifyDocument,
+		name: 'AI-Classify Document',
+		description: 'Detect the document type using AI/ML technology and optionally extract its data with the matching operation',
+		properties: aiClassifyDocument.description,
+		execute: aiClassifyDocument.execute,
+	},
+	{
+		value: ActionConstants.GetJobResult,
+		name: 'Get Job Result',
+		description: 'Fetch the result of an AI job started in "Start Job" mode',
+		properties: getJobResult.description,
+		execute: getJobResult.execute,
+	},
+];
+
+export const operationOptions: INodePropertyOptions[] = OPERATIONS.map((operation) => ({
+	name: operation.name,
+	value: operation.value,
+	description: operation.description,
+	action: operation.name,
+}));
+
+export const operationProperties: INodeProperties[] = OPERATIONS.flatMap((operation) => operation.properties);
+
+export function getOperation(value: string): IOperationDefinition | undefined {
+	return OPERATIONS.find((operation) => operation.value === value);
+}
+
+/**
+ * The operations that documents can be classified and routed to, with their document type.
+ */
+export function getDocumentTypeOperations(): Array<IOperationDefinition & { documentType: IDocumentTypeDefinition }> {
+	return OPERATIONS.filter(
+		(operation): operation is IOperationDefinition & { documentType: IDocumentTypeDefinition } =>
+			operation.documentType !== undefined,
+	);
+}
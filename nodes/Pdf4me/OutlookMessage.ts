@@ -0,0 +1,230 @@
+import type { IEmailAttachment, IEmailMessage } from './EmailMessage';
+
+/**
+ * An entry of a compound file directory: a storage (folder) or a stream (file).
+ */
+interface IDirectoryEntry {
+	name: string;
+	type: number;
+	left: number;
+	right: number;
+	child: number;
+	start: number;
+	size: number;
+}
+
+interface ICompoundFile {
+	entries: IDirectoryEntry[];
+	children: (entryIndex: number) => Map<string, number>;
+	readStream: (entryIndex: number) => Buffer;
+}
+
+const COMPOUND_FILE_SIGNATURE = 'd0cf11e0a1b11ae1';
+const HEADER_SIZE = 512;
+const HEADER_DIFAT_ENTRIES = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+const MAX_REGULAR_SECTOR = 0xfffffffa;
+const NO_STREAM = 0xffffffff;
+const ENTRY_TYPE_STREAM = 2;
+
+// MAPI property tags in the message's fixed-length property stream
+const PROPERTY_STREAM = '__properties_version1.0';
+const TOP_LEVEL_PROPERTY_HEADER_SIZE = 32;
+const PR_CLIENT_SUBMIT_TIME = 0x00390040;
+const PR_MESSAGE_DELIVERY_TIME = 0x0e060040;
+
+// Milliseconds between the FILETIME epoch (1601) and the Unix epoch
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000;
+
+export function isOutlookMessage(data: Buffer): boolean {
+	return data.length >= HEADER_SIZE && data.toString('hex', 0, 8) === COMPOUND_FILE_SIGNATURE;
+}
+
+/**
+ * Read the sector-based compound file container that Outlook .msg files use.
+ * Only what is needed to list storages and read streams is implemented.
+ */
+function readCompoundFile(data: Buffer): ICompoundFile {
+	const sectorShift = data.readUInt16LE(0x1e);
+	if (sectorShift !== 9 && sectorShift !== 12) {
+		throw new Error('Outlook message is corrupt: unsupported sector size');
+	}
+	const sectorSize = 1 << sectorShift;
+	const miniSectorSize = 1 << data.readUInt16LE(0x20);
+	const fatSectorCount = data.readUInt32LE(0x2c);
+	const firstDirectorySector = data.readUInt32LE(0x30);
+	const miniStreamCutoff = data.readUInt32LE(0x38);
+	const firstMiniFatSector = data.readUInt32LE(0x3c);
+	const maxSectors = Math.ceil(data.length / sectorSize);
+
+	const readSector = (sector: number): Buffer => {
+		const offset = (sector + 1) * sectorSize;
+		if (offset >= data.length) {
+			throw new Error('Outlook message is corrupt: sector out of range');
+		}
+		return data.subarray(offset, offset + sectorSize);
+	};
+
+	// Locate the FAT sectors, first from the header and then from the DIFAT chain
+	const fatSectors: number[] = [];
+	for (let i = 0; i < HEADER_DIFAT_ENTRIES && fatSectors.length < fatSectorCount; i++) {
+		fatSectors.push(data.readUInt32LE(0x4c + i * 4));
+	}
+	let difatSector = data.readUInt32LE(0x44);
+	for (let hops = 0; fatSectors.length < fatSectorCount && difatSector <= MAX_REGULAR_SECTOR; hops++) {
+		if (hops > maxSectors) {
+			throw new Error('Outlook message is corrupt: DIFAT loop');
+		}
+		const sector = readSector(difatSector);
+		for (let i = 0; i < sectorSize / 4 - 1 && fatSectors.length < fatSectorCount; i++) {
+			fatSectors.push(sector.readUInt32LE(i * 4));
+		}
+		difatSector = sector.readUInt32LE(sectorSize - 4);
+	}
+
+	const toTable = (buffer: Buffer): number[] => {
+		const table: number[] = [];
+		for (let offset = 0; offset + 4 <= buffer.length; offset += 4) {
+			table.push(buffer.readUInt32LE(offset));
+		}
+		return table;
+	};
+	const fat = toTable(Buffer.concat(fatSectors.map(readSector)));
+
+	const chain = (start: number, table: number[]): number[] => {
+		const sectors: number[] = [];
+		for (let sector = start; sector <= MAX_REGULAR_SECTOR; sector = table[sector]) {
+			if (sector >= table.length || sectors.length > table.length) {
+				throw new Error('Outlook message is corrupt: broken sector chain');
+			}
+			sectors.push(sector);
+		}
+		return sectors;
+	};
+	const readChain = (start: number): Buffer => Buffer.concat(chain(start, fat).map(readSector));
+
+	const directory = readChain(firstDirectorySector);
+	const entries: IDirectoryEntry[] = [];
+	for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directory.length; offset += DIRECTORY_ENTRY_SIZE) {
+		const nameLength = Math.min(directory.readUInt16LE(offset + 0x40), 64);
+		entries.push({
+			name: directory.toString('utf16le', offset, offset + Math.max(nameLength - 2, 0)),
+			type: directory.readUInt8(offset + 0x42),
+			left: directory.readUInt32LE(offset + 0x44),
+			right: directory.readUInt32LE(offset + 0x48),
+			child: directory.readUInt32LE(offset + 0x4c),
+			start: directory.readUInt32LE(offset + 0x74),
+			size: directory.readUInt32LE(offset + 0x78),
+		});
+	}
+	if (entries.length === 0) {
+		throw new Error('Outlook message is corrupt: empty directory');
+	}
+
+	// Small streams live in the mini stream, which is itself stored in the root entry
+	const miniStream = entries[0].start <= MAX_REGULAR_SECTOR ? readChain(entries[0].start) : Buffer.alloc(0);
+	const miniFat = firstMiniFatSector <= MAX_REGULAR_SECTOR ? toTable(readChain(firstMiniFatSector)) : [];
+
+	const readStream = (entryIndex: number): Buffer => {
+		const entry = entries[entryIndex];
+		if (entry.size === 0) {
+			return Buffer.alloc(0);
+		}
+		if (entry.size < miniStreamCutoff) {
+			const sectors = chain(entry.start, miniFat);
+			return Buffer.concat(
+				sectors.map((sector) => miniStream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize)),
+			).subarray(0, entry.size);
+		}
+		return readChain(entry.start).subarray(0, entry.size);
+	};
+
+	// The children of a storage form a binary tree linked through left and right siblings
+	const children = (entryIndex: number): Map<string, number> => {
+		const result = new Map<string, number>();
+		const pending = [entries[entryIndex].child];
+		while (pending.length > 0) {
+			const current = pending.pop() as number;
+			if (current === NO_STREAM || current >= entries.length || result.size > entries.length) {
+				continue;
+			}
+			const entry = entries[current];
+			if (result.has(entry.name)) {
+				continue;
+			}
+			result.set(entry.name, current);
+			pending.push(entry.left, entry.right);
+		}
+		return result;
+	};
+
+	return { entries, children, readStream };
+}
+
+/**
+ * Read sender, subject, date and by-value attachments from an Outlook .msg file.
+ * Embedded messages and OLE objects attached to the message are skipped.
+ */
+export function readOutlookMessage(data: Buffer): IEmailMessage {
+	const file = readCompoundFile(data);
+	const root = file.children(0);
+	if (!root.has(PROPERTY_STREAM)) {
+		throw new Error('File is a compound document but not an Outlook message');
+	}
+
+	const readString = (storage: Map<string, number>, propertyId: string): string | undefined => {
+		const unicode = storage.get(`__substg1.0_${propertyId}001F`);
+		if (unicode !== undefined) {
+			return file.readStream(unicode).toString('utf16le').replace(/\0+$/, '');
+		}
+		const ansi = storage.get(`__substg1.0_${propertyId}001E`);
+		if (ansi !== undefined) {
+			return file.readStream(ansi).toString('latin1').replace(/\0+$/, '');
+		}
+		return undefined;
+	};
+
+	const senderName = readString(root, '0C1A');
+	const senderAddress = readString(root, '5D01') ?? readString(root, '0C1F');
+	const from =
+		senderName && senderAddress && senderName !== senderAddress
+			? `${senderName} <${senderAddress}>`
+			: senderName || senderAddress || '';
+
+	const attachments: IEmailAttachment[] = [];
+	const attachmentStorages = [...root.entries()]
+		.filter(([name]) => name.startsWith('__attach_version1.0_#'))
+		.sort(([a], [b]) => a.localeCompare(b));
+	for (const [, storageIndex] of attachmentStorages) {
+		const storage = file.children(storageIndex);
+		const dataIndex = storage.get('__substg1.0_37010102');
+		if (dataIndex === undefined || file.entries[dataIndex].type !== ENTRY_TYPE_STREAM) {
+			continue;
+		}
+		attachments.push({
+			fileName: readString(storage, '3707') || readString(storage, '3704') || `attachment_${attachments.length + 1}`,
+			contentType: readString(storage, '370E') || 'application/octet-stream',
+			data: file.readStream(dataIndex),
+		});
+	}
+
+	return {
+		from,
+		subject: readString(root, '0037') ?? '',
+		date: readMessageDate(file.readStream(root.get(PROPERTY_STREAM) as number)),
+		attachments,
+	};
+}
+
+function readMessageDate(properties: Buffer): string | undefined {
+	const times = new Map<number, Date>();
+	for (let offset = TOP_LEVEL_PROPERTY_HEADER_SIZE; offset + 16 <= properties.length; offset += 16) {
+		const tag = properties.readUInt32LE(offset);
+		if (tag === PR_CLIENT_SUBMIT_TIME || tag === PR_MESSAGE_DELIVERY_TIME) {
+			const fileTime = properties.readUInt32LE(offset + 12) * 2 ** 32 + properties.readUInt32LE(offset + 8);
+			times.set(tag, new Date(fileTime / 10000 - FILETIME_EPOCH_OFFSET_MS));
+		}
+	}
+	const date = times.get(PR_CLIENT_SUBMIT_TIME) ?? times.get(PR_MESSAGE_DELIVERY_TIME);
+	return date && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
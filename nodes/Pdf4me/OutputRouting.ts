@@ -0,0 +1,137 @@
+import type { IDataObject, INodeExecutionData } from 'n8n-workflow';
+import { getDocumentTypeOperations } from './OperationRegistry';
+
+export type OutputRouting = 'single' | 'documentType' | 'status';
+
+/**
+ * Outputs of the "By Document Type" routing, one per extractor in registry order.
+ * An item goes to the output of the extractor named by its `_metadata.operation`
+ * or, for classification results, its `operation`. Everything else, including
+ * failed items, goes to Other.
+ */
+const DOCUMENT_TYPE_OUTPUTS = getDocumentTypeOperations().map(({ value, documentType }) => ({
+	name: documentType.outputName,
+	operations: [documentType.resultOperation, value],
+}));
+
+const OTHER_OUTPUT = DOCUMENT_TYPE_OUTPUTS.length;
+
+const STATUS_OUTPUTS = ['Success', 'Needs Review', 'Failed'];
+const SUCCESS_OUTPUT = 0;
+const NEEDS_REVIEW_OUTPUT = 1;
+const FAILED_OUTPUT = 2;
+
+const OUTPUT_NAMES: Record<OutputRouting, string[]> = {
+	single: [],
+	documentType: [...DOCUMENT_TYPE_OUTPUTS.map((output) => output.name), 'Other'],
+	status: STATUS_OUTPUTS,
+};
+
+/**
+ * Evaluated by n8n as part of the outputs expression, so it must not reference
+ * anything outside its own body and arguments.
+ */
+const configuredOutputs = (parameters: IDataObject, outputNames: Record<string, string[]>) => {
+	const names = outputNames[parameters.outputRouting as string] || [];
+	return names.length === 0 ? ['main'] : names.map((displayName) => ({ type: 'main', displayName }));
+};
+
+export const outputsExpression: `={{${string}}}` = `={{(${configuredOutputs})($parameter, ${JSON.stringify(OUTPUT_NAMES)})}}`;
+
+export function createOutputs(routing: OutputRouting): INodeExecutionData[][] {
+	return Array.from({ length: Math.max(OUTPUT_NAMES[routing]?.length ?? 0, 1) }, () => []);
+}
+
+/**
+ * Index of the output that receives a failed item kept by continueOnFail, or by
+ * the status routing, which always keeps failed items.
+ */
+export function getErrorOutput(routing: OutputRouting): number {
+	switch (routing) {
+	case 'documentType':
+		return OTHER_OUTPUT;
+	case 'status':
+		return FAILED_OUTPUT;
+	default:
+		return 0;
+	}
+}
+
+/**
+ * Pick the output for a successful result item. With status routing, items that
+ * miss a required field or contain no extracted data go to Needs Review, and the
+ * reasons are recorded in `_metadata.reviewReasons`.
+ */
+export function routeItem(routing: OutputRouting, item: INodeExecutionData, requiredFields: string[]): number {
+	const metadata = (item.json._metadata ?? {}) as IDataObject;
+
+	if (routing === 'documentType') {
+		const operation = (item.json.operation ?? metadata.operation) as string | undefined;
+		const output = DOCUMENT_TYPE_OUTPUTS.findIndex((type) => type.operations.includes(operation as string));
+		return output === -1 ? OTHER_OUTPUT : output;
+	}
+
+	if (routing === 'status') {
+		// A started job has nothing to validate yet
+		if (item.json.jobId !== undefined && item.json.locationUrl !== undefined) {
+			return SUCCESS_OUTPUT;
+		}
+		const reasons = getReviewReasons(item.json, requiredFields);
+		if (reasons.length > 0) {
+			item.json._metadata = { ...metadata, reviewReasons: reasons };
+			return NEEDS_REVIEW_OUTPUT;
+		}
+		return SUCCESS_OUTPUT;
+	}
+
+	return 0;
+}
+
+export function parseRequiredFields(value: string): string[] {
+	return value
+		.split(',')
+		.map((field) => field.trim())
+		.filter((field) => field !== '');
+}
+
+function getReviewReasons(json: IDataObject, requiredFields: string[]): string[] {
+	const reasons: string[] = [];
+	const data = { ...json };
+	delete data._metadata;
+	if (!Object.values(data).some((value) => !isEmptyValue(value))) {
+		reasons.push('No data was extracted from the document');
+	}
+	for (const field of requiredFields) {
+		if (isEmptyValue(getFieldValue(data, field))) {
+			reasons.push(`Required field '${field}' is missing or empty`);
+		}
+	}
+	return reasons;
+}
+
+function getFieldValue(data: IDataObject, path: string): unknown {
+	let value: unknown = data;
+	for (const key of path.split('.')) {
+		if (value === null || typeof value !== 'object') {
+			return undefined;
+		}
+		value = (value as IDataObject)[key];
+	}
+	return value;
+}
+
+function isEmptyValue(value: unknown): boolean {
+	if (value === undefined || value === null) {
+		return true;
+	}
+	if (typeof value === 'string') {
+		return value.trim() === '';
+	}
+	if (Array.isArray(value)) {
+		return value.length === 0;
+	}
+	if (typeof value === 'object') {
+		return Object.keys(value as object).length === 0;
+	}
+	return false;
+}
@@ -5,21 +5,26 @@ import {
 	INodeTypeBaseDescription,
 	INodeExecutionData,
 } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 
 import { descriptions } from './Descriptions';
-import * as aiInvoiceParser from './actions/aiInvoiceParser';
-import * as aiProcessHealthCard from './actions/aiProcessHealthCard';
-import * as aiProcessContract from './actions/aiProcessContract';
-import * as aiProcessMortgageDocument from './actions/aiProcessMortgageDocument';
-import * as aiProcessBankCheque from './actions/aiProcessBankCheque';
-import * as aiProcessCreditCard from './actions/aiProcessCreditCard';
-import * as aiProcessPayStub from './actions/aiProcessPayStub';
-import * as aiProcessMarriageCertificate from './actions/aiProcessMarriageCertificate';
-import { ActionConstants } from './GenericFunctions';
+import { pdf4meAiApiTest } from './GenericFunctions';
+import type { IConcurrencyOptions } from './Concurrency';
+import { mapConcurrent } from './Concurrency';
+import { buildErrorItem } from './Errors';
+import { getOperation } from './OperationRegistry';
+import type { OutputRouting } from './OutputRouting';
+import { createOutputs, getErrorOutput, parseRequiredFields, routeItem } from './OutputRouting';
 
 export class Pdf4meAi implements INodeType {
 	description: INodeTypeDescription;
 
+	methods = {
+		credentialTest: {
+			pdf4meAiApiTest,
+		},
+	};
+
 	constructor(baseDescription: INodeTypeBaseDescription) {
 		this.description = {
 			...baseDescription,
@@ -29,38 +34,46 @@ export class Pdf4meAi implements INodeType {
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
-		const operationResult: INodeExecutionData[] = [];
+		const routing = this.getNodeParameter('outputRouting', 0, 'single') as OutputRouting;
+		const processingOptions = this.getNodeParameter('processingOptions', 0, {}) as Partial<IConcurrencyOptions>;
+		const outputs = createOutputs(routing);
 
-		for (let i = 0; i < items.length; i++) {
-			const action = this.getNodeParameter('operation', i);
+		// Each item resolves to its result items paired with the output they go to
+		const routed = await mapConcurrent(
+			items.length,
+			{
+				concurrency: processingOptions.concurrency ?? 1,
+				requestsPerSecond: processingOptions.requestsPerSecond ?? 0,
+			},
+			async (i): Promise<Array<[number, INodeExecutionData]>> => {
+				const action = this.getNodeParameter('operation', i) as string;
 
-			try {
-				if (action === ActionConstants.AiInvoiceParser) {
-					operationResult.push(...(await aiInvoiceParser.execute.call(this, i)));
-				} else if (action === ActionConstants.AiProcessHealthCard) {
-					operationResult.push(...(await aiProcessHealthCard.execute.call(this, i)));
-				} else if (action === ActionConstants.AiProcessContract) {
-					operationResult.push(...(await aiProcessContract.execute.call(this, i)));
-				} else if (action === ActionConstants.AiProcessMortgageDocument) {
-					operationResult.push(...(await aiProcessMortgageDocument.execute.call(this, i)));
-				} else if (action === ActionConstants.AiProcessBankCheque) {
-					operationResult.push(...(await aiProcessBankCheque.execute.call(this, i)));
-				} else if (action === ActionConstants.AiProcessCreditCard) {
-					operationResult.push(...(await aiProcessCreditCard.execute.call(this, i)));
-				} else if (action === ActionConstants.AiProcessPayStub) {
-					operationResult.push(...(await aiProcessPayStub.execute.call(this, i)));
-				} else if (action === ActionConstants.AiProcessMarriageCertificate) {
-					operationResult.push(...(await aiProcessMarriageCertificate.execute.call(this, i)));
-				}
-			} catch (err) {
-				if (this.continueOnFail()) {
-					operationResult.push({ json: this.getInputData(i)[0].json, error: err, pairedItem: { item: i } });
-				} else {
+				try {
+					const operation = getOperation(action);
+					if (!operation) {
+						throw new NodeOperationError(this.getNode(), `Unsupported operation: ${action}`, { itemIndex: i });
+					}
+					const results = await operation.execute.call(this, i);
+					const requiredFields =
+						routing === 'status' ? parseRequiredFields(this.getNodeParameter('requiredFields', i, '') as string) : [];
+					return results.map((result) => [routeItem(routing, result, requiredFields), result]);
+				} catch (err) {
+					// The Failed output of the status routing receives errors even without continueOnFail
+					if (this.continueOnFail() || routing === 'status') {
+						return [[getErrorOutput(routing), buildErrorItem(this.getNode(), items[i], i, action, err)]];
+					}
 					throw err;
 				}
+			},
+			this.getExecutionCancelSignal(),
+		);
+
+		for (const results of routed) {
+			for (const [output, result] of results ?? []) {
+				outputs[output].push(result);
 			}
 		}
 
-		return [operationResult];
+		return outputs;
 	}
 }
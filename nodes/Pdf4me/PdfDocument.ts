@@ -0,0 +1,108 @@
+// The trailer that references an encryption dictionary sits at the end of a PDF or,
+// in linearized files, near the start, so only both ends are scanned
+const ENCRYPT_SCAN_BYTES = 1024 * 1024;
+
+const ENCRYPT_ENTRY_PATTERN = /\/Encrypt[\s/<\d]/;
+
+/**
+ * Whether a base64-encoded PDF is encrypted, judged by an /Encrypt entry in its
+ * trailer or cross-reference stream dictionary.
+ */
+export function isEncryptedPdf(docContent: string): boolean {
+	const chunkLength = Math.ceil(ENCRYPT_SCAN_BYTES / 3) * 4;
+	if (docContent.length <= chunkLength * 2) {
+		return hasEncryptEntry(Buffer.from(docContent, 'base64'));
+	}
+
+	const tailStart = docContent.length - chunkLength;
+	return (
+		hasEncryptEntry(Buffer.from(docContent.substring(0, chunkLength), 'base64')) ||
+		hasEncryptEntry(Buffer.from(docContent.substring(tailStart - (tailStart % 4)), 'base64'))
+	);
+}
+
+function hasEncryptEntry(data: Buffer): boolean {
+	return ENCRYPT_ENTRY_PATTERN.test(data.toString('latin1'));
+}
+
+// How far around a /Type /Pages entry to look for its /Count
+const PAGE_TREE_WINDOW = 512;
+
+// Highest page number accepted in a page range when the page count cannot be read
+const MAX_PAGE_NUMBER = 10000;
+
+/**
+ * Number of pages of a base64-encoded PDF, read from the /Count of its page tree
+ * root. Returns undefined when the page tree is not readable as plain text, for
+ * example when it is stored in a compressed object stream.
+ */
+export function countPdfPages(docContent: string): number | undefined {
+	const text = Buffer.from(docContent, 'base64').toString('latin1');
+	const pagesPattern = /\/Type\s*\/Pages(?![A-Za-z])/g;
+	let count: number | undefined;
+	let match;
+	while ((match = pagesPattern.exec(text)) !== null) {
+		const window = text.substring(Math.max(0, match.index - PAGE_TREE_WINDOW), match.index + PAGE_TREE_WINDOW);
+		const countMatch = /\/Count\s+(\d+)/.exec(window);
+		if (countMatch) {
+			count = Math.max(count ?? 0, Number(countMatch[1]));
+		}
+	}
+	return count;
+}
+
+/**
+ * Parse a page range such as "1-3,7" or "5-" into sorted, distinct 1-based page
+ * numbers. Open-ended ranges need the page count. Without it, pages are limited to
+ * MAX_PAGE_NUMBER so a range cannot expand into millions of pages. Throws an Error
+ * for invalid input.
+ */
+export function parsePageRange(range: string, pageCount?: number): number[] {
+	const pages = new Set<number>();
+	for (const part of range.split(',').map((segment) => segment.trim()).filter((segment) => segment !== '')) {
+		const match = /^(\d+)\s*(?:-\s*(\d*))?$/.exec(part);
+		if (!match) {
+			throw new Error(`Invalid page range segment '${part}'`);
+		}
+		const first = Number(match[1]);
+		let last = first;
+		if (match[2] !== undefined) {
+			if (match[2] === '') {
+				if (pageCount === undefined) {
+					throw new Error(`Open-ended range '${part}' needs the page count, which could not be read from the PDF`);
+				}
+				last = pageCount;
+			} else {
+				last = Number(match[2]);
+			}
+		}
+		if (first < 1 || last < first) {
+			throw new Error(`Invalid page range segment '${part}'`);
+		}
+		if (pageCount !== undefined && last > pageCount) {
+			throw new Error(`Page ${last} is out of range; the PDF has ${pageCount} page(s)`);
+		}
+		if (last > MAX_PAGE_NUMBER) {
+			throw new Error(`Page ${last} is out of range; page ranges can go up to page ${MAX_PAGE_NUMBER}`);
+		}
+		for (let page = first; page <= last; page++) {
+			pages.add(page);
+		}
+	}
+	return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Format page numbers as a compact range string, e.g. [1, 2, 3, 7] as "1-3,7".
+ */
+export function formatPageRange(pages: number[]): string {
+	const segments: string[] = [];
+	for (let i = 0; i < pages.length; i++) {
+		const start = pages[i];
+		while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) {
+			i++;
+		}
+		segments.push(start === pages[i] ? `${start}` : `${start}-${pages[i]}`);
+	}
+	return segments.join(',');
+}
@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Token bucket for one PDF4ME API key. Tokens may go negative: a request that
+ * finds the bucket empty reserves its token anyway and waits until the bucket
+ * has refilled, so waiting requests are served in the order they arrived.
+ */
+interface ITokenBucket {
+	tokens: number;
+	updatedAt: number;
+	blockedUntil: number;
+}
+
+export interface IRateLimit {
+	requestsPerSecond: number;
+	burst: number;
+}
+
+// Shared by every execution of the node in this process
+const buckets = new Map<string, ITokenBucket>();
+
+/**
+ * Key the limiter by API key and endpoint, hashed so the key itself is not kept in memory.
+ */
+export function getRateLimitKey(credentials: IDataObject): string {
+	return createHash('sha256')
+		.update(`${credentials.apiKey ?? ''}\n${credentials.region ?? ''}\n${credentials.baseUrl ?? ''}`)
+		.digest('hex');
+}
+
+export function getRateLimit(credentials: IDataObject): IRateLimit {
+	const requestsPerSecond = Number(credentials.rateLimit) || 0;
+	return {
+		requestsPerSecond: Math.max(requestsPerSecond, 0),
+		burst: Math.max(Math.floor(Number(credentials.rateLimitBurst) || 1), 1),
+	};
+}
+
+function getBucket(key: string, limit: IRateLimit, now: number): ITokenBucket {
+	let bucket = buckets.get(key);
+	if (!bucket) {
+		bucket = { tokens: limit.burst, updatedAt: now, blockedUntil: 0 };
+		buckets.set(key, bucket);
+	}
+	return bucket;
+}
+
+/**
+ * Take a token for one request and return how many milliseconds the caller must
+ * wait before sending it. Without a rate limit only a pause set by pauseRequests
+ * delays the request.
+ */
+export function reserveRequest(key: string, limit: IRateLimit, now = Date.now()): number {
+	const bucket = getBucket(key, limit, now);
+	const blockedFor = Math.max(bucket.blockedUntil - now, 0);
+	if (limit.requestsPerSecond <= 0) {
+		return blockedFor;
+	}
+
+	const refillPerMs = limit.requestsPerSecond / 1000;
+	bucket.tokens = Math.min(bucket.tokens + (now - bucket.updatedAt) * refillPerMs, limit.burst);
+	bucket.updatedAt = now;
+	bucket.tokens -= 1;
+
+	const refillWait = bucket.tokens < 0 ? Math.ceil(-bucket.tokens / refillPerMs) : 0;
+	return Math.max(refillWait, blockedFor);
+}
+
+/**
+ * Give back the token of a reservation whose request will not be sent.
+ */
+export function releaseRequest(key: string, limit: IRateLimit): void {
+	const bucket = buckets.get(key);
+	if (bucket && limit.requestsPerSecond > 0) {
+		bucket.tokens = Math.min(bucket.tokens + 1, limit.burst);
+	}
+}
+
+/**
+ * Hold back every request for this key for `ms` milliseconds, e.g. for the
+ * Retry-After of a 429 answer, so other items and executions back off as well.
+ */
+export function pauseRequests(key: string, ms: number, now = Date.now()): void {
+	const bucket = buckets.get(key);
+	if (bucket) {
+		bucket.blockedUntil = Math.max(bucket.blockedUntil, now + ms);
+	} else {
+		buckets.set(key, { tokens: 0, updatedAt: now, blockedUntil: now + ms });
+	}
+}
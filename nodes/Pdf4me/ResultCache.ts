@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+/**
+ * Where extraction results are kept between executions:
+ * - staticData: the workflow's static data, saved with the workflow after production executions
+ * - filesystem: one JSON file per result in a directory on the n8n host
+ */
+export type ResultCacheStorage = 'none' | 'staticData' | 'filesystem';
+
+export interface IResultCacheOptions {
+	storage: ResultCacheStorage;
+	ttl: number;
+	directory: string;
+}
+
+interface ICacheEntry {
+	expiresAt: number;
+	result: IDataObject;
+}
+
+const STATIC_DATA_KEY = 'resultCache';
+// Static data is stored with the workflow, so only the most recent entries are kept
+const MAX_STATIC_DATA_ENTRIES = 200;
+// Inside the n8n user folder rather than the shared temp directory, since results hold personal data
+const DEFAULT_CACHE_DIRECTORY = join(process.env.N8N_USER_FOLDER || homedir(), '.n8n', 'pdf4me-ai-cache');
+
+// Cached results are readable by the n8n user only
+const CACHE_DIRECTORY_MODE = 0o700;
+const CACHE_FILE_MODE = 0o600;
+
+// Request fields that do not change the result, or must not end up in the key
+const UNKEYED_FIELDS = ['docContent', 'docName', 'IsAsync', 'callbackUrl', 'password'];
+
+/**
+ * Read the node's "Result Cache" parameters for an item. The TTL is entered in hours.
+ */
+export function getResultCacheOptions(this: IExecuteFunctions, index: number): IResultCacheOptions {
+	const storage = this.getNodeParameter('resultCache', index, 'none') as ResultCacheStorage;
+	if (storage === 'none') {
+		return { storage, ttl: 0, directory: '' };
+	}
+	const ttlHours = this.getNodeParameter('cacheTtl', index, 24) as number;
+	const directory = storage === 'filesystem' ? (this.getNodeParameter('cacheDirectory', index, '') as string).trim() : '';
+	return { storage, ttl: Math.max(ttlHours, 0) * 3600 * 1000, directory: directory || DEFAULT_CACHE_DIRECTORY };
+}
+
+/**
+ * SHA-256 over the document content, the operation and every other request field
+ * that shapes the result, such as custom fields. Field order does not matter.
+ */
+export function getResultCacheKey(operation: string, payload: IDataObject): string {
+	const fields = Object.keys(payload)
+		.filter((name) => !UNKEYED_FIELDS.includes(name))
+		.sort()
+		.map((name) => [name, payload[name]]);
+	return createHash('sha256')
+		.update(String(payload.docContent ?? ''))
+		.update('\n')
+		.update(operation)
+		.update('\n')
+		.update(JSON.stringify(fields))
+		.digest('hex');
+}
+
+export async function readCachedResult(
+	this: IExecuteFunctions,
+	options: IResultCacheOptions,
+	key: string,
+): Promise<IDataObject | undefined> {
+	let entry: ICacheEntry | undefined;
+	if (options.storage === 'staticData') {
+		entry = getStaticDataEntries.call(this)[key] as ICacheEntry | undefined;
+	} else if (options.storage === 'filesystem') {
+		try {
+			entry = JSON.parse(await fs.readFile(join(options.directory, `${key}.json`), 'utf8')) as ICacheEntry;
+		} catch {
+			// Missing or unreadable entries are cache misses
+			return undefined;
+		}
+	}
+
+	if (!entry || typeof entry.result !== 'object' || entry.expiresAt <= Date.now()) {
+		return undefined;
+	}
+	// Hand out a copy so callers cannot change the cached result
+	return JSON.parse(JSON.stringify(entry.result)) as IDataObject;
+}
+
+/**
+ * Store a result. Filesystem write errors are ignored, so a full or read-only
+ * cache directory never fails an extraction that already succeeded.
+ */
+export async function writeCachedResult(
+	this: IExecuteFunctions,
+	options: IResultCacheOptions,
+	key: string,
+	result: IDataObject,
+): Promise<void> {
+	if (options.ttl <= 0) {
+		return;
+	}
+	const now = Date.now();
+	const entry: ICacheEntry = { expiresAt: now + options.ttl, result };
+
+	if (options.storage === 'staticData') {
+		const entries = getStaticDataEntries.call(this);
+		entries[key] = entry as unknown as IDataObject;
+		const keys = Object.keys(entries).sort(
+			(a, b) => (entries[a] as unknown as ICacheEntry).expiresAt - (entries[b] as unknown as ICacheEntry).expiresAt,
+		);
+		for (const [position, name] of keys.entries()) {
+			if ((entries[name] as unknown as ICacheEntry).expiresAt <= now || keys.length - position > MAX_STATIC_DATA_ENTRIES) {
+				delete entries[name];
+			}
+		}
+	} else if (options.storage === 'filesystem') {
+		const file = join(options.directory, `${key}.json`);
+		const temporary = `${file}.${process.pid}.${now}.tmp`;
+		try {
+			await fs.mkdir(options.directory, { recursive: true, mode: CACHE_DIRECTORY_MODE });
+			await fs.writeFile(temporary, JSON.stringify(entry), { encoding: 'utf8', mode: CACHE_FILE_MODE });
+			await fs.rename(temporary, file);
+		} catch {
+			await fs.unlink(temporary).catch(() => undefined);
+		}
+	}
+}
+
+function getStaticDataEntries(this: IExecuteFunctions): IDataObject {
+	const staticData = this.getWorkflowStaticData('node');
+	if (typeof staticData[STATIC_DATA_KEY] !== 'object' || staticData[STATIC_DATA_KEY] === null) {
+		staticData[STATIC_DATA_KEY] = {};
+	}
+	return staticData[STATIC_DATA_KEY] as IDataObject;
+}
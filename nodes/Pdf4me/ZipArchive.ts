@@ -0,0 +1,134 @@
+import { inflateRawSync } from 'zlib';
+
+export interface IZipEntry {
+	path: string;
+	data: Buffer;
+}
+
+/**
+ * Bounds applied while unpacking an archive. maxEntries counts every entry in the
+ * central directory; maxTotalSize caps the uncompressed size of the extracted entries.
+ */
+export interface IZipLimits {
+	maxEntries: number;
+	maxTotalSize: number;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+export function isZipArchive(header: Buffer): boolean {
+	if (header.length < 4) {
+		return false;
+	}
+	const signature = header.readUInt32LE(0);
+	return signature === LOCAL_FILE_HEADER || signature === END_OF_CENTRAL_DIRECTORY;
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+	const last = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE;
+	const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+	for (let offset = last; offset >= first; offset--) {
+		if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+			return offset;
+		}
+	}
+	throw new Error('ZIP archive is corrupt: end of central directory not found');
+}
+
+/**
+ * Unpack the entries of an in-memory ZIP archive that pass the filter. Directories
+ * are skipped. Only stored and deflated entries are supported; encrypted and ZIP64
+ * archives are rejected. Inflation is capped at each entry's declared size, so an
+ * archive cannot expand beyond the limits it was checked against.
+ */
+export function readZipArchive(
+	archive: Buffer,
+	limits: IZipLimits,
+	filter: (path: string) => boolean,
+): IZipEntry[] {
+	if (archive.length < END_OF_CENTRAL_DIRECTORY_SIZE) {
+		throw new Error('ZIP archive is corrupt: file is too short');
+	}
+
+	const end = findEndOfCentralDirectory(archive);
+	const entryCount = archive.readUInt16LE(end + 10);
+	const directoryOffset = archive.readUInt32LE(end + 16);
+	if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+		throw new Error('ZIP64 archives are not supported');
+	}
+	if (entryCount > limits.maxEntries) {
+		throw new Error(`ZIP archive has ${entryCount} entries, more than the limit of ${limits.maxEntries}`);
+	}
+
+	const entries: IZipEntry[] = [];
+	let totalSize = 0;
+	let offset = directoryOffset;
+
+	for (let i = 0; i < entryCount; i++) {
+		if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+			throw new Error('ZIP archive is corrupt: invalid central directory');
+		}
+
+		const flags = archive.readUInt16LE(offset + 8);
+		const method = archive.readUInt16LE(offset + 10);
+		const compressedSize = archive.readUInt32LE(offset + 20);
+		const uncompressedSize = archive.readUInt32LE(offset + 24);
+		const nameLength = archive.readUInt16LE(offset + 28);
+		const extraLength = archive.readUInt16LE(offset + 30);
+		const commentLength = archive.readUInt16LE(offset + 32);
+		const localHeaderOffset = archive.readUInt32LE(offset + 42);
+		const path = archive.toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+		offset += 46 + nameLength + extraLength + commentLength;
+
+		if (path.endsWith('/') || !filter(path)) {
+			continue;
+		}
+		if (flags & FLAG_ENCRYPTED) {
+			throw new Error(`ZIP entry '${path}' is encrypted`);
+		}
+
+		totalSize += uncompressedSize;
+		if (totalSize > limits.maxTotalSize) {
+			throw new Error(`ZIP archive expands to more than the limit of ${limits.maxTotalSize} bytes`);
+		}
+
+		if (
+			localHeaderOffset + 30 > archive.length ||
+			archive.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER
+		) {
+			throw new Error(`ZIP archive is corrupt: invalid local header for '${path}'`);
+		}
+		const dataStart =
+			localHeaderOffset + 30 + archive.readUInt16LE(localHeaderOffset + 26) + archive.readUInt16LE(localHeaderOffset + 28);
+		const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+		let data: Buffer;
+		if (method === METHOD_STORED) {
+			data = compressed;
+		} else if (method === METHOD_DEFLATED) {
+			try {
+				data = inflateRawSync(compressed, { maxOutputLength: Math.max(uncompressedSize, 1) });
+			} catch (error) {
+				throw new Error(`ZIP entry '${path}' could not be decompressed: ${error.message}`);
+			}
+		} else {
+			throw new Error(`ZIP entry '${path}' uses unsupported compression method ${method}`);
+		}
+
+		if (data.length !== uncompressedSize) {
+			throw new Error(`ZIP archive is corrupt: size mismatch for '${path}'`);
+		}
+		entries.push({ path, data });
+	}
+
+	return entries;
+}
@@ -0,0 +1,240 @@
+import type { INodeProperties } from 'n8n-workflow';
+import type { IExecuteFunctions, IDataObject, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	getAsyncRequestOptions,
+	isJobHandle,
+	buildJobStartedItem,
+	ActionConstants,
+} from '../GenericFunctions';
+import { Pdf4meErrorCode, toRequestError, withErrorCode } from '../Errors';
+import type { IDocumentInputOptions, IResolvedDocument } from '../DocumentInput';
+import { documentInputDescription, pdf4meDocumentRequest, processDocuments } from '../DocumentInput';
+// The registry also imports this module, so its operations are only read while executing
+import { getDocumentTypeOperations } from '../OperationRegistry';
+
+export const endpoint = '/api/v2/ClassifyDocument';
+
+const documentInput: IDocumentInputOptions = {
+	operation: ActionConstants.AiClassifyDocument,
+	endpoint,
+	label: 'document',
+	title: 'Document',
+	urlPlaceholder: 'https://example.com/document.pdf',
+};
+
+export const description: INodeProperties[] = [
+	...documentInputDescription(documentInput),
+	{
+		displayName: 'Document Name',
+		name: 'docName',
+		type: 'string',
+		default: 'document.pdf',
+		description: 'Name of the source document file for reference',
+		placeholder: 'original-document.pdf',
+		displayOptions: {
+			show: {
+				operation: [ActionConstants.AiClassifyDocument],
+			},
+		},
+		hint: 'Detect the type of a document using AI technology and optionally extract its data with the matching operation.',
+	},
+	{
+		displayName: 'Mode',
+		name: 'classifyMode',
+		type: 'options',
+		default: 'classify',
+		description: 'Whether to only classify the document or also extract its data',
+		displayOptions: {
+			show: {
+				operation: [ActionConstants.AiClassifyDocument],
+			},
+		},
+		options: [
+			{
+				name: 'Classify Only',
+				value: 'classify',
+				description: 'Return the detected document type and confidence score',
+			},
+			{
+				name: 'Auto',
+				value: 'auto',
+				description: 'Classify the document, then extract its data with the matching AI operation',
+			},
+		],
+	},
+	{
+		displayName: 'Min Confidence',
+		name: 'minConfidence',
+		type: 'number',
+		default: 0.5,
+		typeOptions: {
+			minValue: 0,
+			maxValue: 1,
+			numberPrecision: 2,
+		},
+		description: 'Lowest confidence score (0 to 1) at which the document is routed; below it the item fails',
+		displayOptions: {
+			show: {
+				operation: [ActionConstants.AiClassifyDocument],
+				classifyMode: ['auto'],
+			},
+		},
+	},
+];
+
+interface IClassification {
+	documentType: string;
+	confidence: number | null;
+	label: string;
+	operation?: string;
+}
+
+/**
+ * Map a classifier label to the document type of a registered extractor. The longest
+ * keyword found in the label wins, so "Paycheck" goes to pay stubs rather than to
+ * bank cheques through "check". Labels that match none of the keywords are returned
+ * as they are, without an operation.
+ */
+function matchDocumentType(label: string): { documentType: string; operation?: string } {
+	const normalized = label.toLowerCase().replace(/[^a-z]/g, '');
+	let match: { documentType: string; operation: string; length: number } | undefined;
+	for (const { value, documentType } of getDocumentTypeOperations()) {
+		for (const keyword of documentType.keywords) {
+			if (normalized.includes(keyword) && keyword.length > (match?.length ?? 0)) {
+				match = { documentType: documentType.type, operation: value, length: keyword.length };
+			}
+		}
+	}
+	return match ? { documentType: match.documentType, operation: match.operation } : { documentType: label };
+}
+
+function readClassification(data: IDataObject): IClassification {
+	const source = (data.classification ?? data.result ?? data) as IDataObject;
+	const label = [source.documentType, source.className, source.class, source.type, source.label].find(
+		(value) => typeof value === 'string' && value.trim() !== '',
+	) as string | undefined;
+
+	const rawConfidence = [source.confidence, source.score, source.probability].find(
+		(value) => value !== undefined && value !== null && !isNaN(Number(value)),
+	);
+	let confidence: number | null = rawConfidence === undefined ? null : Number(rawConfidence);
+	// Some responses report a percentage
+	if (confidence !== null && confidence > 1) {
+		confidence = confidence / 100;
+	}
+
+	return { ...matchDocumentType(label?.trim() ?? ''), confidence, label: label?.trim() ?? '' };
+}
+
+/**
+ * AI Classify Document - Detect the document type using PDF4ME's AI/ML technology
+ * Process: Read document → Encode to base64 → Send API request → Poll for completion → Return type and confidence
+ *
+ * In Auto mode the classification always waits for its result, and the document is
+ * then handed to the executor of the matching operation. That executor runs with its
+ * own defaults and the node's job mode, so the output is exactly what the operation
+ * returns when it is called directly.
+ */
+async function processDocument(
+	this: IExecuteFunctions,
+	index: number,
+	document: IResolvedDocument,
+): Promise<INodeExecutionData[]> {
+
+	const { docContent, docName } = document;
+	const mode = this.getNodeParameter('classifyMode', index, 'classify') as string;
+
+	const payload: IDataObject = {
+		docContent,    // Base64 encoded document content
+		docName,       // User-provided document name
+		IsAsync: true,
+	};
+
+	const asyncOptions = getAsyncRequestOptions.call(this, index);
+	if (mode === 'auto') {
+		asyncOptions.waitForCompletion = true;
+		asyncOptions.callbackUrl = undefined;
+	}
+
+	let result: Buffer | IDataObject | string;
+	try {
+		result = await pdf4meDocumentRequest.call(this, index, documentInput, document, payload, asyncOptions);
+	} catch (error) {
+		// Keep coded API errors as they are and report anything else as a connection failure
+		throw toRequestError(this.getNode(), error, index);
+	}
+
+	// "Start Job" mode returns the running job instead of the result
+	if (isJobHandle(result)) {
+		return buildJobStartedItem(result, 'aiClassifyDocument', docName, index);
+	}
+
+	if (!result) {
+		throw withErrorCode(
+			new NodeOperationError(this.getNode(), 'No response data received from PDF4ME AI Document Classification API', { itemIndex: index }),
+			Pdf4meErrorCode.ExtractionEmpty,
+		);
+	}
+
+	let processedData: IDataObject;
+	try {
+		processedData = typeof result === 'string' ? JSON.parse(result) : (result as IDataObject);
+	} catch (error) {
+		throw withErrorCode(
+			new NodeOperationError(this.getNode(), `Failed to parse API response: ${error.message}`, { itemIndex: index }),
+			Pdf4meErrorCode.ApiError,
+		);
+	}
+
+	const classification = readClassification(processedData);
+
+	if (mode === 'auto') {
+		const target = getDocumentTypeOperations().find((operation) => operation.value === classification.operation);
+		if (!target) {
+			throw withErrorCode(
+				new NodeOperationError(
+					this.getNode(),
+					`Document '${docName}' was classified as '${classification.label || 'unknown'}', which no AI operation supports`,
+					{ itemIndex: index },
+				),
+				Pdf4meErrorCode.UnsupportedDocumentType,
+			);
+		}
+		const minConfidence = this.getNodeParameter('minConfidence', index, 0.5) as number;
+		if (classification.confidence !== null && classification.confidence < minConfidence) {
+			throw withErrorCode(
+				new NodeOperationError(
+					this.getNode(),
+					`Document '${docName}' was classified as '${classification.documentType}' with confidence ${classification.confidence}, below the minimum of ${minConfidence}`,
+					{ itemIndex: index },
+				),
+				Pdf4meErrorCode.LowConfidence,
+			);
+		}
+		return await target.documentType.processDocument.call(this, index, document);
+	}
+
+	return [
+		{
+			json: {
+				...processedData, // Raw API response data
+				documentType: classification.documentType,
+				confidence: classification.confidence,
+				operation: classification.operation ?? null,
+				_metadata: {
+					success: true,
+					message: 'Document classified successfully using AI',
+					processingTimestamp: new Date().toISOString(),
+					sourceFileName: docName,
+					operation: 'aiClassifyDocument',
+				},
+			},
+			pairedItem: { item: index },
+		},
+	];
+}
+
+export async function execute(this: IExecuteFunctions, index: number) {
+	return await processDocuments.call(this, index, documentInput, processDocument);
+}
@@ -1,91 +1,29 @@
 import type { INodeProperties } from 'n8n-workflow';
-import type { IExecuteFunctions, IDataObject, JsonObject } from 'n8n-workflow';
-import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 import {
-	pdf4meAsyncRequest,
+	getAsyncRequestOptions,
+	isJobHandle,
+	buildJobStartedItem,
 	ActionConstants,
 } from '../GenericFunctions';
+import { Pdf4meErrorCode, toRequestError, withErrorCode } from '../Errors';
+import type { IDocumentInputOptions, IResolvedDocument } from '../DocumentInput';
+import { documentInputDescription, pdf4meDocumentRequest, processDocuments } from '../DocumentInput';
 
+export const endpoint = '/api/v2/ProcessHealthCard';
 
+const documentInput: IDocumentInputOptions = {
+	operation: ActionConstants.AiProcessHealthCard,
+	endpoint,
+	label: 'health card',
+	title: 'Health Card',
+	urlPlaceholder: 'https://example.com/health_card.jpeg',
+	legacyUrlParameter: 'healthCardUrl',
+};
 
 export const description: INodeProperties[] = [
-	{
-		displayName: 'Input Data Type',
-		name: 'inputDataType',
-		type: 'options',
-		required: true,
-		default: 'binaryData',
-		description: 'Choose how to provide the health card document to process',
-		displayOptions: {
-			show: {
-				operation: [ActionConstants.AiProcessHealthCard],
-			},
-		},
-		options: [
-			{
-				name: 'Binary Data',
-				value: 'binaryData',
-				description: 'Use health card file from previous node',
-			},
-			{
-				name: 'Base64 String',
-				value: 'base64',
-				description: 'Provide health card content as base64 encoded string',
-			},
-			{
-				name: 'URL',
-				value: 'url',
-				description: 'Provide URL to health card file',
-			},
-		],
-	},
-	{
-		displayName: 'Input Binary Field',
-		name: 'binaryPropertyName',
-		type: 'string',
-		required: false,
-		default: 'data',
-		description: 'Name of the binary property that contains the health card file',
-		displayOptions: {
-			show: {
-				operation: [ActionConstants.AiProcessHealthCard],
-				inputDataType: ['binaryData'],
-			},
-		},
-	},
-	{
-		displayName: 'Base64 Health Card Content',
-		name: 'base64Content',
-		type: 'string',
-		typeOptions: {
-			alwaysOpenEditWindow: true,
-		},
-		required: true,
-		default: '',
-		description: 'Base64 encoded health card content',
-		placeholder: 'JVBERi0xLjQKJcfsj6IKNSAwIG9iago8PAovVHlwZSAvQ2F0YWxvZw...',
-		displayOptions: {
-			show: {
-				operation: [ActionConstants.AiProcessHealthCard],
-				inputDataType: ['base64'],
-			},
-		},
-	},
-	{
-		displayName: 'Health Card URL',
-		name: 'healthCardUrl',
-		type: 'string',
-		required: true,
-		default: '',
-		description: 'URL to the health card file to process',
-		placeholder: 'https://example.com/health_card.jpeg',
-		displayOptions: {
-			show: {
-				operation: [ActionConstants.AiProcessHealthCard],
-				inputDataType: ['url'],
-			},
-		},
-	},
+	...documentInputDescription(documentInput),
 	{
 		displayName: 'Health Card Name',
 		name: 'docName',
@@ -112,50 +50,9 @@ export const description: INodeProperties[] = [
  * - Always processes asynchronously for optimal performance
  * - Returns structured data in the same format as the Python script
  */
-export async function execute(this: IExecuteFunctions, index: number) {
-	const inputDataType = this.getNodeParameter('inputDataType', index) as string;
-	const docName = this.getNodeParameter('docName', index) as string;
+export async function processDocument(this: IExecuteFunctions, index: number, document: IResolvedDocument) {
 
-	let docContent: string;
-
-	// Handle different input data types - convert all to base64
-	if (inputDataType === 'binaryData') {
-		// Get health card content from binary data
-		const binaryPropertyName = this.getNodeParameter('binaryPropertyName', index, 'data') as string;
-		const item = this.getInputData(index);
-
-		if (!item[0].binary || !item[0].binary[binaryPropertyName]) {
-			throw new NodeOperationError(this.getNode(), `No binary data found in property '${binaryPropertyName}'`);
-		}
-
-		const buffer = await this.helpers.getBinaryDataBuffer(index, binaryPropertyName);
-		docContent = buffer.toString('base64');
-	} else if (inputDataType === 'base64') {
-		// Use base64 content directly
-		docContent = this.getNodeParameter('base64Content', index) as string;
-
-		// Remove data URL prefix if present (e.g., "data:image/jpeg;base64,")
-		if (docContent.includes(',')) {
-			docContent = docContent.split(',')[1];
-		}
-	} else if (inputDataType === 'url') {
-		// Download file from URL and convert to base64
-		const healthCardUrl = this.getNodeParameter('healthCardUrl', index) as string;
-		const response = await this.helpers.httpRequestWithAuthentication.call(this, 'pdf4meAiApi', {
-			method: 'GET' as const,
-			url: healthCardUrl,
-			encoding: 'arraybuffer' as const,
-		});
-		const buffer = Buffer.from(response);
-		docContent = buffer.toString('base64');
-	} else {
-		throw new NodeOperationError(this.getNode(), `Unsupported input data type: ${inputDataType}`);
-	}
-
-	// Validate health card content
-	if (!docContent || docContent.trim() === '') {
-		throw new NodeOperationError(this.getNode(), 'Health card content is required');
-	}
+	const { docContent, docName } = document;
 
 	// Build the request payload - exactly like contract action
 	const payload: IDataObject = {
@@ -166,18 +63,21 @@ export async function execute(this: IExecuteFunctions, index: number) {
 
 
 
+	const asyncOptions = getAsyncRequestOptions.call(this, index);
+
 	// Make the API request to process the health card - matching contract action exactly
 	let result: any;
 	try {
 		// Use async request function for health card processing
-		result = await pdf4meAsyncRequest.call(this, '/api/v2/ProcessHealthCard', payload);
+		result = await pdf4meDocumentRequest.call(this, index, documentInput, document, payload, asyncOptions);
 	} catch (error) {
-		// Enhanced error handling with debugging context
-		if (error.statusCode) {
-			throw new NodeApiError(this.getNode(), error as JsonObject);
-		} else {
-			throw new NodeOperationError(this.getNode(), `Connection error: ${error.message || 'Unknown connection issue'} | Debug: docLength=${docContent?.length}, docName=${docName}, errorCode=${error.code}`);
-		}
+		// Keep coded API errors as they are and report anything else as a connection failure
+		throw toRequestError(this.getNode(), error, index);
+	}
+
+	// "Start Job" mode returns the running job instead of the result
+	if (isJobHandle(result)) {
+		return buildJobStartedItem(result, 'aiProcessHealthCard', docName, index);
 	}
 
 	// Process the response - handle the exact same format as contract action
@@ -192,7 +92,10 @@ export async function execute(this: IExecuteFunctions, index: number) {
 				processedData = result;
 			}
 		} catch (error) {
-			throw new NodeOperationError(this.getNode(), `Failed to parse API response: ${error.message}`);
+			throw withErrorCode(
+				new NodeOperationError(this.getNode(), `Failed to parse API response: ${error.message}`, { itemIndex: index }),
+				Pdf4meErrorCode.ApiError,
+			);
 		}
 
 		// Return both raw data and metadata
@@ -214,5 +117,12 @@ export async function execute(this: IExecuteFunctions, index: number) {
 	}
 
 	// Error case - no response received
-	throw new NodeOperationError(this.getNode(), 'No response data received from PDF4ME AI Health Card Processing API');
+	throw withErrorCode(
+		new NodeOperationError(this.getNode(), 'No response data received from PDF4ME AI Health Card Processing API', { itemIndex: index }),
+		Pdf4meErrorCode.ExtractionEmpty,
+	);
+}
+
+export async function execute(this: IExecuteFunctions, index: number) {
+	return await processDocuments.call(this, index, documentInput, processDocument);
 }
@@ -1,89 +1,29 @@
 import type { INodeProperties } from 'n8n-workflow';
-import type { IExecuteFunctions, IDataObject, JsonObject } from 'n8n-workflow';
-import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 import {
-	pdf4meAsyncRequest,
+	getAsyncRequestOptions,
+	isJobHandle,
+	buildJobStartedItem,
 	ActionConstants,
 } from '../GenericFunctions';
+import { Pdf4meErrorCode, toRequestError, withErrorCode } from '../Errors';
+import type { IDocumentInputOptions, IResolvedDocument } from '../DocumentInput';
+import { documentInputDescription, pdf4meDocumentRequest, processDocuments } from '../DocumentInput';
+
+export const endpoint = '/api/v2/ProcessMarriageCertificate';
+
+const documentInput: IDocumentInputOptions = {
+	operation: ActionConstants.AiProcessMarriageCertificate,
+	endpoint,
+	label: 'marriage certificate',
+	title: 'Marriage Certificate',
+	urlPlaceholder: 'https://example.com/marriage_certificate.png',
+	legacyUrlParameter: 'marriageCertificateUrl',
+};
 
 export const description: INodeProperties[] = [
-	{
-		displayName: 'Input Data Type',
-		name: 'inputDataType',
-		type: 'options',
-		required: true,
-		default: 'binaryData',
-		description: 'Choose how to provide the marriage certificate document to process',
-		displayOptions: {
-			show: {
-				operation: [ActionConstants.AiProcessMarriageCertificate],
-			},
-		},
-		options: [
-			{
-				name: 'Binary Data',
-				value: 'binaryData',
-				description: 'Use marriage certificate file from previous node',
-			},
-			{
-				name: 'Base64 String',
-				value: 'base64',
-				description: 'Provide marriage certificate content as base64 encoded string',
-			},
-			{
-				name: 'URL',
-				value: 'url',
-				description: 'Provide URL to marriage certificate file',
-			},
-		],
-	},
-	{
-		displayName: 'Input Binary Field',
-		name: 'binaryPropertyName',
-		type: 'string',
-		required: false,
-		default: 'data',
-		description: 'Name of the binary property that contains the marriage certificate file',
-		displayOptions: {
-			show: {
-				operation: [ActionConstants.AiProcessMarriageCertificate],
-				inputDataType: ['binaryData'],
-			},
-		},
-	},
-	{
-		displayName: 'Base64 Marriage Certificate Content',
-		name: 'base64Content',
-		type: 'string',
-		typeOptions: {
-			alwaysOpenEditWindow: true,
-		},
-		required: true,
-		default: '',
-		description: 'Base64 encoded marriage certificate document content',
-		placeholder: 'JVBERi0xLjQKJeLjz9MKNCAwIG9iago8PAovVHlwZSAvWE9iamVjdA...',
-		displayOptions: {
-			show: {
-				operation: [ActionConstants.AiProcessMarriageCertificate],
-				inputDataType: ['base64'],
-			},
-		},
-	},
-	{
-		displayName: 'Marriage Certificate URL',
-		name: 'marriageCertificateUrl',
-		type: 'string',
-		required: true,
-		default: '',
-		description: 'URL to the marriage certificate file to process',
-		placeholder: 'https://example.com/marriage_certificate.png',
-		displayOptions: {
-			show: {
-				operation: [ActionConstants.AiProcessMarriageCertificate],
-				inputDataType: ['url'],
-			},
-		},
-	},
+	...documentInputDescription(documentInput),
 	{
 		displayName: 'Document Name',
 		name: 'docName',
@@ -158,55 +98,11 @@ export const description: INodeProperties[] = [
  * - Supports optional custom field keys for additional data extraction
  * - Returns structured data in JSON format
  */
-export async function execute(this: IExecuteFunctions, index: number) {
-	const inputDataType = this.getNodeParameter('inputDataType', index) as string;
-	const docName = this.getNodeParameter('docName', index) as string;
+export async function processDocument(this: IExecuteFunctions, index: number, document: IResolvedDocument) {
 	const verifyAuthenticity = this.getNodeParameter('verifyAuthenticity', index, false) as boolean;
 	const customFieldsData = this.getNodeParameter('customFields', index, {}) as IDataObject;
 
-	let docContent: string;
-
-	// Handle different input data types - convert all to base64
-	if (inputDataType === 'binaryData') {
-		// Get marriage certificate content from binary data
-		const binaryPropertyName = this.getNodeParameter('binaryPropertyName', index, 'data') as string;
-		const item = this.getInputData(index);
-
-		if (!item[0].binary || !item[0].binary[binaryPropertyName]) {
-			throw new NodeOperationError(this.getNode(), `No binary data found in property '${binaryPropertyName}'`);
-		}
-
-		const buffer = await this.helpers.getBinaryDataBuffer(index, binaryPropertyName);
-		docContent = buffer.toString('base64');
-	} else if (inputDataType === 'base64') {
-		// Use base64 content directly
-		docContent = this.getNodeParameter('base64Content', index) as string;
-
-		// Remove data URL prefix if present (e.g., "data:image/png;base64,")
-		if (docContent.includes(',')) {
-			docContent = docContent.split(',')[1];
-		}
-	} else if (inputDataType === 'url') {
-		// Download file from URL and convert to base64
-		const marriageCertificateUrl = this.getNodeParameter('marriageCertificateUrl', index) as string;
-		const response = await this.helpers.httpRequestWithAuthentication.call(this, 'pdf4meAiApi', {
-			method: 'GET' as const,
-			url: marriageCertificateUrl,
-			encoding: 'arraybuffer' as const,
-		});
-		const buffer = Buffer.from(response);
-		docContent = buffer.toString('base64');
-	} else {
-		throw new NodeOperationError(this.getNode(), `Unsupported input data type: ${inputDataType}`);
-	}
-
-	// Validate marriage certificate content
-	if (!docContent || docContent.trim() === '') {
-		throw new NodeOperationError(this.getNode(), 'Marriage certificate content is required');
-	}
-
-	// Note: Marriage certificate images may not start with PDF header, so we skip PDF validation
-	// The API will handle validation of the actual content
+	const { docContent, docName } = document;
 
 	// Get custom field keys if specified
 	const customFieldsList = (customFieldsData.field as Array<{ key: string }>) || [];
@@ -236,18 +132,21 @@ export async function execute(this: IExecuteFunctions, index: number) {
 		payload.CustomFieldKeys = customFieldKeys;
 	}
 
+	const asyncOptions = getAsyncRequestOptions.call(this, index);
+
 	// Make the API request to process the marriage certificate
 	let result: any;
 	try {
 		// Use async request function for marriage certificate processing
-		result = await pdf4meAsyncRequest.call(this, '/api/v2/ProcessMarriageCertificate', payload);
+		result = await pdf4meDocumentRequest.call(this, index, documentInput, document, payload, asyncOptions);
 	} catch (error) {
-		// Enhanced error handling with debugging context
-		if (error.statusCode) {
-			throw new NodeApiError(this.getNode(), error as JsonObject);
-		} else {
-			throw new NodeOperationError(this.getNode(), `Connection error: ${error.message || 'Unknown connection issue'} | Debug: docLength=${docContent?.length}, docName=${docName}, errorCode=${error.code}`);
-		}
+		// Keep coded API errors as they are and report anything else as a connection failure
+		throw toRequestError(this.getNode(), error, index);
+	}
+
+	// "Start Job" mode returns the running job instead of the result
+	if (isJobHandle(result)) {
+		return buildJobStartedItem(result, 'aiProcessMarriageCertificate', docName, index);
 	}
 
 	// Process the response - handle the exact same format as other AI actions
@@ -262,7 +161,10 @@ export async function execute(this: IExecuteFunctions, index: number) {
 				processedData = result;
 			}
 		} catch (error) {
-			throw new NodeOperationError(this.getNode(), `Failed to parse API response: ${error.message}`);
+			throw withErrorCode(
+				new NodeOperationError(this.getNode(), `Failed to parse API response: ${error.message}`, { itemIndex: index }),
+				Pdf4meErrorCode.ApiError,
+			);
 		}
 
 		// Return both raw data and metadata
@@ -295,7 +197,12 @@ export async function execute(this: IExecuteFunctions, index: number) {
 	}
 
 	// Error case - no response received
-	throw new NodeOperationError(this.getNode(), 'No response data received from PDF4ME AI Marriage Certificate Processing API');
+	throw withErrorCode(
+		new NodeOperationError(this.getNode(), 'No response data received from PDF4ME AI Marriage Certificate Processing API', { itemIndex: index }),
+		Pdf4meErrorCode.ExtractionEmpty,
+	);
 }
 
-
+export async function execute(this: IExecuteFunctions, index: number) {
+	return await processDocuments.call(this, index, documentInput, processDocument);
+}
@@ -0,0 +1,215 @@
+import type { INodeProperties } from 'n8n-workflow';
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	pdf4meGetJobResult,
+	getAsyncRequestOptions,
+	getPdf4meBaseUrl,
+	getJobIdFromLocation,
+	isJobHandle,
+	verifyCallbackPayload,
+	ActionConstants,
+} from '../GenericFunctions';
+import { Pdf4meErrorCode, withErrorCode } from '../Errors';
+
+export const description: INodeProperties[] = [
+	{
+		displayName: 'Result Source',
+		name: 'resultSource',
+		type: 'options',
+		default: 'locationUrl',
+		description: 'Where to get the job result from',
+		displayOptions: {
+			show: {
+				operation: [ActionConstants.GetJobResult],
+			},
+		},
+		options: [
+			{
+				name: 'Job Location URL',
+				value: 'locationUrl',
+				description: 'Poll the job returned by "Start Job" mode',
+			},
+			{
+				name: 'Callback Payload',
+				value: 'callbackPayload',
+				description: 'Verify a result that PDF4ME posted to a callback URL',
+			},
+		],
+	},
+	{
+		displayName: 'Callback Payload',
+		name: 'callbackPayload',
+		type: 'json',
+		required: true,
+		default: '',
+		description: 'Body posted to the callback URL, for example the body received by a Wait node',
+		placeholder: '={{ $json.body }}',
+		displayOptions: {
+			show: {
+				operation: [ActionConstants.GetJobResult],
+				resultSource: ['callbackPayload'],
+			},
+		},
+	},
+	{
+		displayName: 'Job Location URL',
+		name: 'locationUrl',
+		type: 'string',
+		required: true,
+		default: '',
+		description: 'Location URL returned by an AI operation run in "Start Job" mode',
+		placeholder: '={{ $json.locationUrl }}',
+		displayOptions: {
+			show: {
+				operation: [ActionConstants.GetJobResult],
+				resultSource: ['locationUrl'],
+			},
+		},
+		hint: 'Fetch the result of a job started earlier. Combine with a Wait node to process long documents without keeping a worker busy.',
+	},
+	{
+		displayName: 'Wait for Completion',
+		name: 'waitForCompletion',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to poll until the job finishes. When off, the job is checked once and returned with status "running" if it is not done yet.',
+		displayOptions: {
+			show: {
+				operation: [ActionConstants.GetJobResult],
+				resultSource: ['locationUrl'],
+			},
+		},
+	},
+];
+
+/**
+ * Get Job Result - Fetch the result of an AI job started in "Start Job" or callback mode
+ * Process: Validate Location URL → Poll once or until completion → Return result or running status
+ *
+ * The Location URL must point at the credential's API host, since the request carries the API key.
+ * Callback payloads are only checked for shape; no request is made.
+ */
+export async function execute(this: IExecuteFunctions, index: number) {
+	const resultSource = this.getNodeParameter('resultSource', index, 'locationUrl') as string;
+	if (resultSource === 'callbackPayload') {
+		return verifyCallback.call(this, index);
+	}
+
+	const locationUrl = (this.getNodeParameter('locationUrl', index) as string).trim();
+	const waitForCompletion = this.getNodeParameter('waitForCompletion', index, false) as boolean;
+
+	if (!locationUrl) {
+		throw withErrorCode(
+			new NodeOperationError(this.getNode(), 'Job Location URL is required', { itemIndex: index }),
+			Pdf4meErrorCode.InvalidInput,
+		);
+	}
+
+	let parsedUrl: URL;
+	try {
+		parsedUrl = new URL(locationUrl);
+	} catch {
+		throw withErrorCode(
+			new NodeOperationError(this.getNode(), `Invalid Job Location URL: ${locationUrl}`, { itemIndex: index }),
+			Pdf4meErrorCode.InvalidInput,
+		);
+	}
+	const apiOrigin = new URL(await getPdf4meBaseUrl.call(this)).origin;
+	if (parsedUrl.origin !== apiOrigin) {
+		throw withErrorCode(
+			new NodeOperationError(
+				this.getNode(),
+				`Job Location URL must point at the PDF4ME API (${apiOrigin}), got: ${parsedUrl.origin}`,
+				{ itemIndex: index },
+			),
+			Pdf4meErrorCode.InvalidInput,
+		);
+	}
+
+	const asyncOptions = {
+		...getAsyncRequestOptions.call(this, index),
+		waitForCompletion,
+	};
+
+	const result = await pdf4meGetJobResult.call(this, locationUrl, asyncOptions);
+
+	if (isJobHandle(result)) {
+		return [
+			{
+				json: {
+					...result,
+					_metadata: {
+						success: true,
+						message: 'Job is still running',
+						processingTimestamp: new Date().toISOString(),
+						operation: 'getJobResult',
+					},
+				},
+				pairedItem: { item: index },
+			},
+		];
+	}
+
+	const metadata: IDataObject = {
+		success: true,
+		message: 'Job result retrieved successfully',
+		processingTimestamp: new Date().toISOString(),
+		jobStatus: 'completed',
+		jobId: getJobIdFromLocation(locationUrl),
+		jobLocationUrl: locationUrl,
+		operation: 'getJobResult',
+	};
+
+	return [
+		{
+			json: {
+				...result,
+				_metadata: metadata,
+			},
+			pairedItem: { item: index },
+		},
+	];
+}
+
+function verifyCallback(this: IExecuteFunctions, index: number) {
+	const rawPayload = this.getNodeParameter('callbackPayload', index) as unknown;
+
+	let payload;
+	try {
+		payload = verifyCallbackPayload(rawPayload);
+	} catch (error) {
+		throw withErrorCode(
+			new NodeOperationError(this.getNode(), `Invalid callback payload: ${error.message}`, { itemIndex: index }),
+			Pdf4meErrorCode.InvalidInput,
+		);
+	}
+
+	if (payload.status === 'failed') {
+		throw withErrorCode(
+			new NodeOperationError(
+				this.getNode(),
+				`PDF4ME job${payload.jobId ? ` ${payload.jobId}` : ''} failed: ${payload.error}`,
+				{ itemIndex: index },
+			),
+			Pdf4meErrorCode.ApiError,
+		);
+	}
+
+	return [
+		{
+			json: {
+				...payload.result,
+				_metadata: {
+					success: true,
+					message: 'Callback result verified successfully',
+					processingTimestamp: new Date().toISOString(),
+					jobStatus: 'completed',
+					...(payload.jobId && { jobId: payload.jobId }),
+					operation: 'getJobResult',
+				},
+			},
+			pairedItem: { item: index },
+		},
+	];
+}
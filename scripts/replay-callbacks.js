@@ -0,0 +1,137 @@
+// Replays PDF4ME job callbacks against a stand-in server or a Wait node.
+//
+//   node scripts/replay-callbacks.js
+//     Posts every sample body to a local stand-in server, runs the node's
+//     verifyCallbackPayload on what arrived and exits non-zero on a mismatch.
+//
+//   node scripts/replay-callbacks.js <resume-url> [sample]
+//     Posts one sample (or all of them) to a Wait node resume URL.
+//
+// Needs a build first: npm run build
+const http = require('http');
+const https = require('https');
+const path = require('path');
+
+const samples = [
+	{
+		name: 'completed',
+		expect: 'completed',
+		body: { jobId: 'job-1', status: 'completed', result: { invoiceNumber: 'INV-1' } },
+	},
+	{
+		name: 'completed-data',
+		expect: 'completed',
+		body: { jobId: 'job-2', status: 'succeeded', data: { invoiceNumber: 'INV-2' } },
+	},
+	{ name: 'bare-result', expect: 'completed', body: { invoiceNumber: 'INV-3' } },
+	{ name: 'failed', expect: 'failed', body: { jobId: 'job-4', status: 'failed', error: 'Unreadable file' } },
+	{ name: 'cancelled', expect: 'failed', body: { status: 'cancelled', message: 'Cancelled by user' } },
+	{ name: 'bare-error', expect: 'invalid', body: { error: 'boom' } },
+	{ name: 'bare-message', expect: 'invalid', body: { message: 'Internal error' } },
+	{
+		name: 'wait-node-item',
+		expect: 'invalid',
+		body: { headers: {}, params: {}, query: {}, body: { status: 'completed', result: {} } },
+	},
+	{ name: 'unknown-status', expect: 'invalid', body: { status: 'queued' } },
+	{ name: 'completed-without-result', expect: 'invalid', body: { status: 'completed' } },
+	{ name: 'array', expect: 'invalid', body: [{ status: 'completed', result: {} }] },
+	{ name: 'empty', expect: 'invalid', body: {} },
+	{ name: 'not-json', expect: 'invalid', body: 'status=completed' },
+];
+
+function encode(body) {
+	return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+function post(url, text) {
+	return new Promise((resolve, reject) => {
+		const target = new URL(url);
+		const client = target.protocol === 'https:' ? https : http;
+		const request = client.request(
+			target,
+			{
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(text) },
+			},
+			(response) => {
+				const chunks = [];
+				response.on('data', (chunk) => chunks.push(chunk));
+				response.on('end', () =>
+					resolve({ statusCode: response.statusCode, body: Buffer.concat(chunks).toString() }),
+				);
+			},
+		);
+		request.setTimeout(10000, () => request.destroy(new Error('Request timed out')));
+		request.on('error', reject);
+		request.end(text);
+	});
+}
+
+function loadVerifier() {
+	const modulePath = path.resolve(__dirname, '..', 'dist', 'nodes', 'Pdf4me', 'GenericFunctions.js');
+	try {
+		return require(modulePath).verifyCallbackPayload;
+	} catch (error) {
+		console.error(`Cannot load ${modulePath}; run "npm run build" first.`);
+		process.exit(2);
+	}
+}
+
+async function check() {
+	const verifyCallbackPayload = loadVerifier();
+
+	// Stand-in for the Wait node: answers with what the node's verifier makes of the raw body
+	const server = http.createServer((request, response) => {
+		const chunks = [];
+		request.on('data', (chunk) => chunks.push(chunk));
+		request.on('end', () => {
+			let outcome;
+			try {
+				const callback = verifyCallbackPayload(Buffer.concat(chunks).toString());
+				outcome = { status: callback.status, error: callback.error };
+			} catch (error) {
+				outcome = { status: 'invalid', error: error.message };
+			}
+			response.writeHead(200, { 'Content-Type': 'application/json' });
+			response.end(JSON.stringify(outcome));
+		});
+	});
+	await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const url = `http://127.0.0.1:${server.address().port}/webhook-waiting/replay`;
+
+	let failures = 0;
+	try {
+		for (const sample of samples) {
+			const answer = await post(url, encode(sample.body));
+			const outcome = JSON.parse(answer.body);
+			const passed = outcome.status === sample.expect;
+			if (!passed) failures++;
+			const detail = outcome.error ? ` (${outcome.error})` : '';
+			console.log(`${passed ? 'ok  ' : 'FAIL'} ${sample.name}: ${outcome.status}${detail}`);
+		}
+	} finally {
+		server.close();
+	}
+
+	console.log(`${samples.length - failures}/${samples.length} samples matched`);
+	process.exitCode = failures ? 1 : 0;
+}
+
+async function replay(url, name) {
+	const selected = name ? samples.filter((sample) => sample.name === name) : samples;
+	if (!selected.length) {
+		console.error(`Unknown sample "${name}". Samples: ${samples.map((sample) => sample.name).join(', ')}`);
+		process.exit(2);
+	}
+	for (const sample of selected) {
+		const answer = await post(url, encode(sample.body));
+		console.log(`${sample.name}: HTTP ${answer.statusCode}`);
+	}
+}
+
+const [url, name] = process.argv.slice(2);
+(url ? replay(url, name) : check()).catch((error) => {
+	console.error(error.message);
+	process.exit(1);
+});